@@ -1,235 +0,0 @@
-import { GameState, Winner, GameSetup, GamePlayer, Turn } from "@shared/types/Game";
-import { TeamSnekProcessor } from "./TeamSnekProcessor";
-
-export class KingSnekProcessor extends TeamSnekProcessor {
-  constructor(gameState: GameState) {
-    super(gameState);
-  }
-
-  static filterActivePlayers(setup: GameSetup): GamePlayer[] {
-    return setup.gamePlayers.filter(player => player.teamID);
-  }
-
-  static getScoringUnit(setup: GameSetup): 'individual' | 'team' {
-    return 'team';
-  }
-
-  private getKingForTeam(teamID: string): GamePlayer | undefined {
-    return this.gameSetup.gamePlayers.find(player => player.teamID === teamID && player.isKing);
-  }
-
-  applyMoves(currentTurn: any, moves: any[]): any {
-    const newTurn = super.applyMoves(currentTurn, moves);
-
-    const currentAlivePlayers = new Set<string>(currentTurn.alivePlayers);
-    const newAlivePlayers = new Set<string>(newTurn.alivePlayers);
-
-    const deadPlayers = Array.from(currentAlivePlayers).filter(id => !newAlivePlayers.has(id));
-
-    deadPlayers.forEach(playerID => {
-      const player = this.gameSetup.gamePlayers.find(p => p.id === playerID);
-      if (player && player.isKing && player.teamID) {
-        this.gameSetup.gamePlayers.forEach(teammate => {
-          if (teammate.teamID === player.teamID && teammate.id !== playerID && newAlivePlayers.has(teammate.id)) {
-            newAlivePlayers.delete(teammate.id);
-            delete newTurn.playerPieces[teammate.id];
-            delete newTurn.playerHealth[teammate.id];
-            delete newTurn.allowedMoves[teammate.id];
-            newTurn.scores[teammate.id] = 0;
-            if (newTurn.teamScores && player.teamID) {
-              newTurn.teamScores[player.teamID] = 0;
-            }
-          }
-        });
-      }
-    });
-
-    newTurn.alivePlayers = Array.from(newAlivePlayers);
-
-    return newTurn;
-  }
-
-  protected calculateWinners(gameState: any): Winner[] {
-    const currentTurnNumber = this.gameState.turns.length;
-    const reachedTurnLimit =
-      this.gameSetup.maxTurns !== undefined && currentTurnNumber >= this.gameSetup.maxTurns;
-
-    const aliveTeams = this.getKingSnekAliveTeams(gameState);
-
-    if (aliveTeams.length === 0) {
-      return this.calculatePreviousTurnKingOutcome();
-    }
-
-    if (aliveTeams.length === 1) {
-      return this.calculateKingSnekTeamWinners(aliveTeams[0], gameState);
-    }
-
-    if (reachedTurnLimit) {
-      const teamScores = this.getKingTeamScores(gameState);
-      const maxScore = Math.max(...teamScores.values());
-      const topTeams = Array.from(teamScores.entries())
-        .filter(([, score]) => score === maxScore)
-        .map(([teamID]) => teamID);
-
-      if (topTeams.length === 1) {
-        return this.calculateKingSnekTeamWinners(topTeams[0], gameState);
-      }
-
-      return this.calculateKingSnekDrawWinners(topTeams, gameState);
-    }
-
-    return [];
-  }
-
-  private getKingSnekAliveTeams(gameState: any): string[] {
-    const aliveTeams = new Set<string>();
-
-    gameState.newAlivePlayers.forEach((playerID: string) => {
-      const player = this.gameSetup.gamePlayers.find(p => p.id === playerID);
-      if (player && player.teamID) {
-        aliveTeams.add(player.teamID);
-      }
-    });
-
-    return Array.from(aliveTeams);
-  }
-
-  private calculateKingSnekTeamWinners(teamID: string, gameState: any): Winner[] {
-    const teamPlayers = this.gameSetup.gamePlayers.filter(player => player.teamID === teamID);
-    const king = this.getKingForTeam(teamID);
-
-    const teamScore = king ? (gameState.newSnakes[king.id]?.length || 0) : 0;
-
-    return teamPlayers.map(player => ({
-      playerID: player.id,
-      // King length fully determines the team score/placements
-      score: teamScore,
-      winningSquares: gameState.newSnakes[player.id] || [],
-      teamID: teamID,
-      teamScore: teamScore
-    }));
-  }
-
-  private calculateKingSnekDrawWinners(teamIDs: string[], gameState: any): Winner[] {
-    return teamIDs.flatMap(teamID => this.calculateKingSnekTeamWinners(teamID, gameState));
-  }
-
-  private calculateKingSnekDrawWinnersFromTurn(teamIDs: string[], turn: Turn): Winner[] {
-    return teamIDs.flatMap(teamID => this.calculateKingSnekTeamWinnersFromTurn(teamID, turn));
-  }
-
-  private getKingTeamScores(gameState: any): Map<string, number> {
-    const teamScores = new Map<string, number>();
-
-    this.gameSetup.gamePlayers.forEach(player => {
-      if (player.teamID) {
-        const king = this.getKingForTeam(player.teamID);
-        const kingScore = king ? (gameState.newSnakes[king.id]?.length || 0) : 0;
-        teamScores.set(player.teamID, kingScore);
-      }
-    });
-
-    return teamScores;
-  }
-
-  private getKingTeamScoresFromTurn(turn: Turn): Map<string, number> {
-    const teamScores = new Map<string, number>();
-
-    this.gameSetup.gamePlayers.forEach(player => {
-      if (player.teamID) {
-        const king = this.getKingForTeam(player.teamID);
-        const kingScore = king ? (turn.playerPieces[king.id]?.length || 0) : 0;
-        teamScores.set(player.teamID, kingScore);
-      }
-    });
-
-    return teamScores;
-  }
-
-  protected createNewTurn(currentTurn: any, gameState: any, winners: any[]): any {
-    const newTurn = super.createNewTurn(currentTurn, gameState, winners);
-
-    const teamScores: { [teamID: string]: number } = {};
-    const playerScores: { [playerID: string]: number } = {};
-
-    this.gameSetup.gamePlayers.forEach(player => {
-      if (player.teamID && player.isKing) {
-        const kingScore = gameState.deadPlayers.has(player.id) ? 0 : (gameState.newSnakes[player.id]?.length || 0);
-        teamScores[player.teamID] = kingScore;
-      }
-    });
-
-    this.gameSetup.gamePlayers.forEach(player => {
-      const king = player.teamID ? this.getKingForTeam(player.teamID) : undefined;
-      const kingScore = king ? (gameState.newSnakes[king.id]?.length || 0) : 0;
-      // Every player on a team shares the king-determined score for consistency
-      playerScores[player.id] = gameState.deadPlayers.has(player.id) ? 0 : kingScore;
-    });
-
-    newTurn.scores = playerScores;
-    newTurn.teamScores = teamScores;
-    newTurn.scoringUnit = 'team';
-
-    return newTurn;
-  }
-
-  private calculateKingSnekTeamWinnersFromTurn(teamID: string, turn: Turn): Winner[] {
-    const king = this.getKingForTeam(teamID);
-    const teamScore = king ? (turn.playerPieces[king.id]?.length || 0) : 0;
-
-    return this.gameSetup.gamePlayers
-      .filter(player => player.teamID === teamID)
-      .map(player => ({
-        playerID: player.id,
-        // King length fully determines the team score/placements
-        score: teamScore,
-        winningSquares: turn.playerPieces[player.id] || [],
-        teamID,
-        teamScore,
-      }));
-  }
-
-  private getKingSnekAliveTeamsFromTurn(turn: Turn): string[] {
-    const aliveTeams = new Set<string>();
-
-    turn.alivePlayers.forEach(playerID => {
-      const player = this.gameSetup.gamePlayers.find(p => p.id === playerID);
-      if (player?.teamID) {
-        aliveTeams.add(player.teamID);
-      }
-    });
-
-    return Array.from(aliveTeams);
-  }
-
-  private calculatePreviousTurnKingOutcome(): Winner[] {
-    const previousTurn = this.gameState.turns[this.gameState.turns.length - 1];
-
-    if (!previousTurn) {
-      return [];
-    }
-
-    const aliveTeams = this.getKingSnekAliveTeamsFromTurn(previousTurn);
-
-    if (aliveTeams.length === 1) {
-      return this.calculateKingSnekTeamWinnersFromTurn(aliveTeams[0], previousTurn);
-    }
-
-    const teamScores = this.getKingTeamScoresFromTurn(previousTurn);
-
-    if (teamScores.size === 0) {
-      return [];
-    }
-
-    const maxScore = Math.max(...teamScores.values());
-    const topTeams = Array.from(teamScores.entries())
-      .filter(([, score]) => score === maxScore)
-      .map(([teamID]) => teamID);
-
-    if (topTeams.length === 1) {
-      return this.calculateKingSnekTeamWinnersFromTurn(topTeams[0], previousTurn);
-    }
-
-    return this.calculateKingSnekDrawWinnersFromTurn(topTeams, previousTurn);
-  }
-}
\ No newline at end of file
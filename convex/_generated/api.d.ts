@@ -8,9 +8,29 @@
  * @module
  */
 
+import type * as apiKeys from "../apiKeys.js";
 import type * as auth from "../auth.js";
 import type * as battlesnake from "../battlesnake.js";
+import type * as boardValidation from "../boardValidation.js";
+import type * as bots from "../bots.js";
+import type * as bundleFormat from "../bundleFormat.js";
+import type * as bundles from "../bundles.js";
 import type * as engine from "../engine.js";
+import type * as fuzz from "../fuzz.js";
+import type * as hazardPresets from "../hazardPresets.js";
+import type * as history from "../history.js";
+import type * as http from "../http.js";
+import type * as kingRules from "../kingRules.js";
+import type * as rules from "../rules.js";
+import type * as rulesets from "../rulesets.js";
+import type * as runner from "../runner.js";
+import type * as safeMoves from "../safeMoves.js";
+import type * as scenario from "../scenario.js";
+import type * as scoring from "../scoring.js";
+import type * as suites from "../suites.js";
+import type * as testImport from "../testImport.js";
+import type * as validators from "../validators.js";
+import type * as variants from "../variants.js";
 
 import type {
   ApiFromModules,
@@ -19,9 +39,29 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  apiKeys: typeof apiKeys;
   auth: typeof auth;
   battlesnake: typeof battlesnake;
+  boardValidation: typeof boardValidation;
+  bots: typeof bots;
+  bundleFormat: typeof bundleFormat;
+  bundles: typeof bundles;
   engine: typeof engine;
+  fuzz: typeof fuzz;
+  hazardPresets: typeof hazardPresets;
+  history: typeof history;
+  http: typeof http;
+  kingRules: typeof kingRules;
+  rules: typeof rules;
+  rulesets: typeof rulesets;
+  runner: typeof runner;
+  safeMoves: typeof safeMoves;
+  scenario: typeof scenario;
+  scoring: typeof scoring;
+  suites: typeof suites;
+  testImport: typeof testImport;
+  validators: typeof validators;
+  variants: typeof variants;
 }>;
 
 /**
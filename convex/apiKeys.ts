@@ -0,0 +1,94 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { requireUserSession } from "./auth";
+
+const KEY_PREFIX = "snek_";
+const MAX_ACTIVE_KEYS = 10;
+
+// Keys are long random strings, so a plain SHA-256 is enough to store them
+// and still lets a request look its key up by hash.
+export async function hashApiKey(key: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function generateApiKey() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return KEY_PREFIX + Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export const listApiKeys = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_userId", (q) => q.eq("userId", userId as Id<"users">))
+      .order("desc")
+      .collect();
+    return keys.map(({ keyHash: _keyHash, ...key }) => key);
+  },
+});
+
+export const createApiKey = mutation({
+  args: { token: v.string(), name: v.string() },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("API key name is required.");
+    }
+    const existing = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_userId", (q) => q.eq("userId", userId as Id<"users">))
+      .collect();
+    if (existing.filter((key) => !key.revokedAt).length >= MAX_ACTIVE_KEYS) {
+      throw new Error(`You can have at most ${MAX_ACTIVE_KEYS} active API keys.`);
+    }
+    const key = generateApiKey();
+    await ctx.db.insert("apiKeys", {
+      userId: userId as Id<"users">,
+      name,
+      keyHash: await hashApiKey(key),
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      createdAt: Date.now(),
+    });
+    return { key };
+  },
+});
+
+export const revokeApiKey = mutation({
+  args: { token: v.string(), keyId: v.id("apiKeys") },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const key = await ctx.db.get("apiKeys", args.keyId);
+    if (!key || key.userId !== userId) {
+      throw new Error("API key not found.");
+    }
+    if (!key.revokedAt) {
+      await ctx.db.patch("apiKeys", args.keyId, { revokedAt: Date.now() });
+    }
+  },
+});
+
+export const authenticateApiKey = internalMutation({
+  args: { keyHash: v.string() },
+  handler: async (ctx, args) => {
+    const key = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_keyHash", (q) => q.eq("keyHash", args.keyHash))
+      .first();
+    if (!key || key.revokedAt) {
+      return null;
+    }
+    const user = await ctx.db.get("users", key.userId);
+    if (!user) {
+      return null;
+    }
+    await ctx.db.patch("apiKeys", key._id, { lastUsedAt: Date.now() });
+    return { userId: key.userId };
+  },
+});
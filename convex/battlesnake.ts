@@ -1,55 +1,30 @@
 import { v } from "convex/values";
 import { action, internalMutation, mutation, query } from "./_generated/server";
 import { internal } from "./_generated/api";
-import type { MutationCtx } from "./_generated/server";
+import type { ActionCtx, MutationCtx } from "./_generated/server";
 import { api } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
 import { requireUserSession, requireAdmin } from "./auth";
-
-const coordinate = v.object({ x: v.number(), y: v.number() });
-const snake = v.object({
-  id: v.string(),
-  name: v.string(),
-  health: v.number(),
-  body: v.array(coordinate),
-  head: coordinate,
-  length: v.number(),
-  latency: v.optional(v.string()),
-  shout: v.optional(v.string()),
-  team: v.optional(v.string()),
-  isKing: v.optional(v.boolean()),
-  headEmoji: v.optional(v.string()),
-  color: v.optional(v.string()),
-});
-const board = v.object({
-  height: v.number(),
-  width: v.number(),
-  food: v.array(coordinate),
-  hazards: v.array(coordinate),
-  snakes: v.array(snake),
-});
-const ruleset = v.optional(
-  v.object({
-    name: v.optional(v.string()),
-    version: v.optional(v.string()),
-    settings: v.optional(
-      v.object({
-        foodSpawnChance: v.optional(v.number()),
-        minimumFood: v.optional(v.number()),
-        hazardDamagePerTurn: v.optional(v.number()),
-        hazardMap: v.optional(v.string()),
-      }),
-    ),
-  }),
-);
-const game = v.optional(
-  v.object({
-    id: v.optional(v.string()),
-    ruleset,
-    map: v.optional(v.string()),
-    timeout: v.optional(v.number()),
-  }),
-);
+import { botRunOptions, requireOwnedBot } from "./bots";
+import { describeBoardIssues, validateBoard } from "./boardValidation";
+import { hashBoard } from "./bundleFormat";
+import { LEGACY_HAZARD_DAMAGE_PER_TURN } from "./rules";
+import { runTestAgainstBot } from "./runner";
+import type { BotInfo, LifecycleStep } from "./runner";
+import { summarizeRepeats, validateExpectations, validateRepeat } from "./scoring";
+import type { MoveGrade, RepeatSummary } from "./scoring";
+import { validateScenario } from "./scenario";
+import { BOARD_TRANSFORM_LABELS, transformTest } from "./variants";
+import {
+  board,
+  boardTransform,
+  botInfo,
+  game,
+  lifecycleStep,
+  moveGrade,
+  repeatSummary,
+  scenario,
+} from "./validators";
 
 const ADMIN_ENV_KEY = "BATTLESNAKE_ADMIN_PASSWORD";
 const RATE_LIMIT_WINDOW_MS = 5 * 60 * 1000;
@@ -63,14 +38,50 @@ type RunTestResult =
       shout: string | null;
       status: number;
       raw: unknown;
+      passed: boolean;
+      grade: MoveGrade;
+      score: number;
+      scenarioMoves?: string[];
+      survivedTurns?: number;
+      eliminationCause?: string;
+      responseTimeMs: number;
+      lifecycleSteps?: LifecycleStep[];
+      botInfo?: BotInfo;
     }
   | {
       ok: false;
       error: string;
+      timedOut?: boolean;
       status?: number;
       raw?: unknown;
+      responseTimeMs?: number;
+      lifecycleSteps?: LifecycleStep[];
+      botInfo?: BotInfo;
+    };
+type TestRunOutcome =
+  | {
+      ok: true;
+      move: string | null;
+      shout: string | null;
+      passed: boolean;
+      grade: MoveGrade;
+      score: number;
+      responseTimeMs: number;
+      scenarioMoves?: string[];
+      survivedTurns?: number;
+      eliminationCause?: string;
+      lifecycleSteps?: LifecycleStep[];
+      botInfo?: BotInfo;
+      repeatSummary?: RepeatSummary;
+    }
+  | {
+      ok: false;
+      error: string;
+      timedOut?: boolean;
+      lifecycleSteps?: LifecycleStep[];
+      botInfo?: BotInfo;
+      repeatSummary?: RepeatSummary;
     };
-
 function requireAdminPassword(password: string) {
   const expected = process.env[ADMIN_ENV_KEY];
   if (!expected) {
@@ -128,6 +139,10 @@ export const createTest = mutation({
     turn: v.number(),
     youId: v.string(),
     expectedSafeMoves: v.array(v.string()),
+    preferredMove: v.optional(v.string()),
+    forbiddenMoves: v.optional(v.array(v.string())),
+    scenario,
+    latencyBudgetMs: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     await requireAdminSession(ctx, args.adminToken);
@@ -137,6 +152,14 @@ export const createTest = mutation({
     if (!youExists) {
       throw new Error("youId must match a snake in the board.");
     }
+    const expectationError = validateExpectations(args);
+    if (expectationError) {
+      throw new Error(expectationError);
+    }
+    const scenarioError = validateScenario(args);
+    if (scenarioError) {
+      throw new Error(scenarioError);
+    }
     const createdAt = Date.now();
     const id = await ctx.db.insert("tests", {
       name: args.name,
@@ -145,7 +168,12 @@ export const createTest = mutation({
       game: args.game,
       turn: args.turn,
       youId: args.youId,
+      boardHash: hashBoard(args.board, args.youId),
       expectedSafeMoves: args.expectedSafeMoves,
+      preferredMove: args.preferredMove,
+      forbiddenMoves: args.forbiddenMoves,
+      scenario: args.scenario,
+      latencyBudgetMs: args.latencyBudgetMs,
       createdAt,
     });
     return await ctx.db.get(id);
@@ -163,6 +191,10 @@ export const updateTest = mutation({
     turn: v.number(),
     youId: v.string(),
     expectedSafeMoves: v.array(v.string()),
+    preferredMove: v.optional(v.string()),
+    forbiddenMoves: v.optional(v.array(v.string())),
+    scenario,
+    latencyBudgetMs: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     await requireAdminSession(ctx, args.adminToken);
@@ -172,6 +204,14 @@ export const updateTest = mutation({
     if (!youExists) {
       throw new Error("youId must match a snake in the board.");
     }
+    const expectationError = validateExpectations(args);
+    if (expectationError) {
+      throw new Error(expectationError);
+    }
+    const scenarioError = validateScenario(args);
+    if (scenarioError) {
+      throw new Error(scenarioError);
+    }
     await ctx.db.patch(args.id, {
       name: args.name,
       description: args.description,
@@ -179,7 +219,12 @@ export const updateTest = mutation({
       game: args.game,
       turn: args.turn,
       youId: args.youId,
+      boardHash: hashBoard(args.board, args.youId),
       expectedSafeMoves: args.expectedSafeMoves,
+      preferredMove: args.preferredMove,
+      forbiddenMoves: args.forbiddenMoves,
+      scenario: args.scenario,
+      latencyBudgetMs: args.latencyBudgetMs,
     });
     return await ctx.db.get(args.id);
   },
@@ -189,7 +234,14 @@ export const deleteTest = mutation({
   args: { adminToken: v.string(), id: v.id("tests") },
   handler: async (ctx, args) => {
     await requireAdminSession(ctx, args.adminToken);
-    await ctx.db.delete(args.id);
+    const variants = await ctx.db
+      .query("tests")
+      .withIndex("by_parentTestId", (q) => q.eq("parentTestId", args.id))
+      .collect();
+    for (const variant of variants) {
+      await ctx.db.patch("tests", variant._id, { parentTestId: undefined });
+    }
+    await ctx.db.delete("tests", args.id);
   },
 });
 
@@ -294,6 +346,9 @@ export const runTest = action({
   args: {
     testId: v.id("tests"),
     url: v.string(),
+    lifecycle: v.optional(v.boolean()),
+    token: v.optional(v.string()),
+    botId: v.optional(v.id("bots")),
   },
   handler: async (ctx, args): Promise<RunTestResult> => {
     const test = (await ctx.runQuery(api.battlesnake.getTest, {
@@ -303,112 +358,50 @@ export const runTest = action({
       return { ok: false, error: "Test not found." };
     }
 
-    const you = test.board.snakes.find(
-      (snakeItem: TestDoc["board"]["snakes"][number]) =>
-        snakeItem.id === test.youId,
-    );
-    if (!you) {
-      return { ok: false, error: "You snake not found in test." };
-    }
-
-    const rawUrl = args.url.trim();
-    if (!rawUrl) {
-      return { ok: false, error: "Bot URL is required." };
-    }
-    const normalizedUrl = rawUrl.replace(/\/+$/, "");
-    const endpoint = normalizedUrl.endsWith("/move")
-      ? normalizedUrl
-      : `${normalizedUrl}/move`;
-
-    const requestBody: {
-      game: {
-        id: string;
-        ruleset: {
-          name?: string;
-          version?: string;
-          settings?: {
-            foodSpawnChance?: number;
-            minimumFood?: number;
-            hazardDamagePerTurn?: number;
-            hazardMap?: string;
-          };
-        };
-        map?: string;
-        timeout?: number;
-      };
-      turn: number;
-      board: TestDoc["board"];
-      you: TestDoc["board"]["snakes"][number];
-    } = {
-      game: {
-        id: test.game?.id ?? `test-${test._id}`,
-        ruleset: test.game?.ruleset ?? {
-          name: "standard",
-          version: "1.0.0",
-          settings: {
-            foodSpawnChance: 0,
-            minimumFood: 0,
-            hazardDamagePerTurn: 100,
-            hazardMap: "custom",
-          },
-        },
-        map: test.game?.map ?? "custom",
-        timeout: test.game?.timeout ?? 500,
-      },
-      turn: test.turn,
-      board: test.board,
-      you,
-    };
-
-    try {
-      const response: Response = await fetch(endpoint, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-      });
-      const responseText = await response.text();
-      let data: unknown = null;
-      if (responseText) {
-        try {
-          data = JSON.parse(responseText);
-        } catch (error) {
-          return {
-            ok: false,
-            error: `Non-JSON response (${response.status}).`,
-            status: response.status,
-            raw: responseText,
-          };
-        }
+    let bot: Doc<"bots"> | null = null;
+    if (args.botId) {
+      if (!args.token) {
+        return { ok: false, error: "Log in to run against a saved bot." };
       }
-      if (!response.ok) {
-        return {
-          ok: false,
-          error: `HTTP ${response.status}`,
-          status: response.status,
-          raw: data,
-        };
+      bot = await ctx.runQuery(internal.bots.getOwnedBot, { token: args.token, botId: args.botId });
+      if (!bot) {
+        return { ok: false, error: "Bot not found." };
       }
-      const move =
-        typeof (data as { move?: unknown })?.move === "string"
-          ? (data as { move: string }).move
-          : null;
-      const shout =
-        typeof (data as { shout?: unknown })?.shout === "string"
-          ? (data as { shout: string }).shout
-          : null;
-      return {
-        ok: true,
-        move,
-        shout,
-        status: response.status,
-        raw: data,
-      };
-    } catch (error) {
+    }
+
+    const outcome = await runTestAgainstBot(bot?.baseUrl ?? args.url, test, {
+      gameId: `test-${test._id}`,
+      lifecycle: args.lifecycle,
+      ...botRunOptions(bot),
+    });
+    if (!outcome.ok) {
       return {
         ok: false,
-        error: error instanceof Error ? error.message : "Request failed.",
+        error: outcome.error,
+        timedOut: outcome.timedOut,
+        status: outcome.status,
+        raw: outcome.rawResponse,
+        responseTimeMs: outcome.responseTimeMs,
+        lifecycleSteps: outcome.lifecycleSteps,
+        botInfo: outcome.botInfo,
       };
     }
+    return {
+      ok: true,
+      move: outcome.move,
+      shout: outcome.shout,
+      status: outcome.status,
+      raw: outcome.raw,
+      passed: outcome.passed,
+      grade: outcome.grade,
+      score: outcome.score,
+      scenarioMoves: outcome.scenarioMoves,
+      survivedTurns: outcome.survivedTurns,
+      eliminationCause: outcome.eliminationCause,
+      responseTimeMs: outcome.responseTimeMs,
+      lifecycleSteps: outcome.lifecycleSteps,
+      botInfo: outcome.botInfo,
+    };
   },
 });
 
@@ -468,6 +461,10 @@ export const createUserTest = mutation({
     turn: v.number(),
     youId: v.string(),
     expectedSafeMoves: v.array(v.string()),
+    preferredMove: v.optional(v.string()),
+    forbiddenMoves: v.optional(v.array(v.string())),
+    scenario,
+    latencyBudgetMs: v.optional(v.number()),
     makePrivate: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
@@ -482,6 +479,18 @@ export const createUserTest = mutation({
     if (!youExists) {
       throw new Error("youId must match a snake in the board.");
     }
+    const boardError = describeBoardIssues(validateBoard(args.board));
+    if (boardError) {
+      throw new Error(boardError);
+    }
+    const expectationError = validateExpectations(args);
+    if (expectationError) {
+      throw new Error(expectationError);
+    }
+    const scenarioError = validateScenario(args);
+    if (scenarioError) {
+      throw new Error(scenarioError);
+    }
     const createdAt = Date.now();
     const id = await ctx.db.insert("tests", {
       name: args.name,
@@ -490,7 +499,12 @@ export const createUserTest = mutation({
       game: args.game,
       turn: args.turn,
       youId: args.youId,
+      boardHash: hashBoard(args.board, args.youId),
       expectedSafeMoves: args.expectedSafeMoves,
+      preferredMove: args.preferredMove,
+      forbiddenMoves: args.forbiddenMoves,
+      scenario: args.scenario,
+      latencyBudgetMs: args.latencyBudgetMs,
       createdAt,
       ownerId: userId as Id<"users">,
       status: args.makePrivate ? "private" : "pending",
@@ -510,6 +524,10 @@ export const updateUserTest = mutation({
     turn: v.number(),
     youId: v.string(),
     expectedSafeMoves: v.array(v.string()),
+    preferredMove: v.optional(v.string()),
+    forbiddenMoves: v.optional(v.array(v.string())),
+    scenario,
+    latencyBudgetMs: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const { userId } = await requireUserSession(ctx, args.token);
@@ -529,6 +547,18 @@ export const updateUserTest = mutation({
     if (!youExists) {
       throw new Error("youId must match a snake in the board.");
     }
+    const boardError = describeBoardIssues(validateBoard(args.board));
+    if (boardError) {
+      throw new Error(boardError);
+    }
+    const expectationError = validateExpectations(args);
+    if (expectationError) {
+      throw new Error(expectationError);
+    }
+    const scenarioError = validateScenario(args);
+    if (scenarioError) {
+      throw new Error(scenarioError);
+    }
     await ctx.db.patch(args.id, {
       name: args.name,
       description: args.description,
@@ -536,7 +566,12 @@ export const updateUserTest = mutation({
       game: args.game,
       turn: args.turn,
       youId: args.youId,
+      boardHash: hashBoard(args.board, args.youId),
       expectedSafeMoves: args.expectedSafeMoves,
+      preferredMove: args.preferredMove,
+      forbiddenMoves: args.forbiddenMoves,
+      scenario: args.scenario,
+      latencyBudgetMs: args.latencyBudgetMs,
       status: "pending",
     });
     return await ctx.db.get(args.id);
@@ -554,6 +589,10 @@ export const adminUpdateTest = mutation({
     turn: v.number(),
     youId: v.string(),
     expectedSafeMoves: v.array(v.string()),
+    preferredMove: v.optional(v.string()),
+    forbiddenMoves: v.optional(v.array(v.string())),
+    scenario,
+    latencyBudgetMs: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const { isAdmin } = await requireUserSession(ctx, args.token);
@@ -570,6 +609,18 @@ export const adminUpdateTest = mutation({
     if (!youExists) {
       throw new Error("youId must match a snake in the board.");
     }
+    const boardError = describeBoardIssues(validateBoard(args.board));
+    if (boardError) {
+      throw new Error(boardError);
+    }
+    const expectationError = validateExpectations(args);
+    if (expectationError) {
+      throw new Error(expectationError);
+    }
+    const scenarioError = validateScenario(args);
+    if (scenarioError) {
+      throw new Error(scenarioError);
+    }
     await ctx.db.patch(args.id, {
       name: args.name,
       description: args.description,
@@ -577,7 +628,12 @@ export const adminUpdateTest = mutation({
       game: args.game,
       turn: args.turn,
       youId: args.youId,
+      boardHash: hashBoard(args.board, args.youId),
       expectedSafeMoves: args.expectedSafeMoves,
+      preferredMove: args.preferredMove,
+      forbiddenMoves: args.forbiddenMoves,
+      scenario: args.scenario,
+      latencyBudgetMs: args.latencyBudgetMs,
     });
     return await ctx.db.get(args.id);
   },
@@ -601,10 +657,118 @@ export const deleteUserTest = mutation({
     for (const ct of collectionTests) {
       await ctx.db.delete(ct._id);
     }
+    const variants = await ctx.db
+      .query("tests")
+      .withIndex("by_parentTestId", (q) => q.eq("parentTestId", args.id))
+      .collect();
+    for (const variant of variants) {
+      await ctx.db.patch("tests", variant._id, { parentTestId: undefined });
+    }
     await ctx.db.delete(args.id);
   },
 });
 
+// Saves mirrored and rotated copies of a test as private child tests.
+// Orientations the test already has a variant for are skipped.
+export const createSymmetryVariants = mutation({
+  args: {
+    token: v.string(),
+    testId: v.id("tests"),
+    transforms: v.array(boardTransform),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const test = await ctx.db.get("tests", args.testId);
+    if (!test) {
+      throw new Error("Test not found.");
+    }
+    if (test.ownerId !== userId) {
+      throw new Error("You don't have permission to create variants of this test.");
+    }
+    if (test.parentTestId) {
+      throw new Error("Create variants from the original test instead of a variant.");
+    }
+    const existing = await ctx.db
+      .query("tests")
+      .withIndex("by_parentTestId", (q) => q.eq("parentTestId", args.testId))
+      .collect();
+    const existingTransforms = new Set(existing.map((variant) => variant.symmetry));
+    const createdAt = Date.now();
+    let created = 0;
+    for (const transform of new Set(args.transforms)) {
+      if (existingTransforms.has(transform)) {
+        continue;
+      }
+      const variant = transformTest(test, transform);
+      const boardError = describeBoardIssues(validateBoard(variant.board));
+      if (boardError) {
+        throw new Error(boardError);
+      }
+      await ctx.db.insert("tests", {
+        name: `${test.name} (${BOARD_TRANSFORM_LABELS[transform]})`,
+        description: test.description,
+        board: variant.board,
+        game: test.game,
+        turn: test.turn,
+        youId: variant.youId,
+        boardHash: hashBoard(variant.board, variant.youId),
+        expectedSafeMoves: variant.expectedSafeMoves,
+        preferredMove: variant.preferredMove,
+        forbiddenMoves: variant.forbiddenMoves,
+        scenario: variant.scenario,
+        latencyBudgetMs: test.latencyBudgetMs,
+        createdAt,
+        ownerId: userId as Id<"users">,
+        status: "private",
+        parentTestId: test._id,
+        symmetry: transform,
+      });
+      created++;
+    }
+    return { created, skipped: new Set(args.transforms).size - created };
+  },
+});
+
+// When unset hazard damage started meaning 14 instead of 100.
+const HAZARD_DAMAGE_DEFAULT_CHANGED_AT = Date.UTC(2026, 9, 19, 13, 0);
+
+// Unset hazard damage used to mean 100 per turn and now means 14, the engine
+// default. This writes 100 into tests with hazards that leave it unset, so
+// their grading and oracle verdicts stay the same. Only tests created before
+// the change are touched, so running it late leaves newer tests on the new
+// default: `npx convex run battlesnake:backfillHazardDamage`.
+export const backfillHazardDamage = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("tests")
+      .withIndex("by_creation_time", (q) =>
+        q.lt("_creationTime", HAZARD_DAMAGE_DEFAULT_CHANGED_AT),
+      )
+      .paginate({ cursor: args.cursor ?? null, numItems: 100 });
+    for (const test of page.page) {
+      const settings = test.game?.ruleset?.settings;
+      if (test.board.hazards.length === 0 || settings?.hazardDamagePerTurn !== undefined) {
+        continue;
+      }
+      await ctx.db.patch("tests", test._id, {
+        game: {
+          ...test.game,
+          ruleset: {
+            ...test.game?.ruleset,
+            settings: { ...settings, hazardDamagePerTurn: LEGACY_HAZARD_DAMAGE_PER_TURN },
+          },
+        },
+      });
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.battlesnake.backfillHazardDamage, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
 export const approveTest = mutation({
   args: { token: v.string(), id: v.id("tests") },
   handler: async (ctx, args) => {
@@ -1010,6 +1174,9 @@ export const startTestRun = mutation({
     token: v.string(),
     testId: v.id("tests"),
     botUrl: v.string(),
+    botId: v.optional(v.id("bots")),
+    lifecycle: v.optional(v.boolean()),
+    repeat: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const { userId } = await requireUserSession(ctx, args.token);
@@ -1017,10 +1184,18 @@ export const startTestRun = mutation({
     if (!test) {
       throw new Error("Test not found.");
     }
+    const repeatError = validateRepeat(args.repeat);
+    if (repeatError) {
+      throw new Error(repeatError);
+    }
+    const bot = args.botId ? await requireOwnedBot(ctx, userId, args.botId) : null;
     const runId = await ctx.db.insert("testRuns", {
       testId: args.testId,
       userId: userId as Id<"users">,
-      botUrl: args.botUrl,
+      botId: bot?._id,
+      botUrl: bot?.baseUrl ?? args.botUrl,
+      lifecycle: args.lifecycle,
+      repeat: args.repeat,
       status: "running",
       startedAt: Date.now(),
     });
@@ -1040,155 +1215,120 @@ export const executeTestRun = action({
     runId: v.id("testRuns"),
   },
   handler: async (ctx, args) => {
-    const run = await ctx.runQuery(api.battlesnake.getTestRun, { runId: args.runId });
-    if (!run) {
-      return { ok: false, error: "Test run not found." };
-    }
-    if (run.status !== "running") {
-      return { ok: false, error: "Test run is not in running state." };
-    }
-
-    const test = (await ctx.runQuery(api.battlesnake.getTest, {
-      id: run.testId,
-    })) as TestDoc | null;
-    if (!test) {
-      await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
-        runId: args.runId,
-        status: "failed",
-        error: "Test not found.",
-      });
-      return { ok: false, error: "Test not found." };
-    }
-
-    const you = test.board.snakes.find(
-      (snakeItem: TestDoc["board"]["snakes"][number]) =>
-        snakeItem.id === test.youId,
-    );
-    if (!you) {
-      await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
-        runId: args.runId,
-        status: "failed",
-        error: "You snake not found in test.",
-      });
-      return { ok: false, error: "You snake not found in test." };
-    }
+    return await performTestRun(ctx, args.runId);
+  },
+});
 
-    const rawUrl = run.botUrl.trim();
-    if (!rawUrl) {
-      await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
-        runId: args.runId,
-        status: "failed",
-        error: "Bot URL is required.",
-      });
-      return { ok: false, error: "Bot URL is required." };
-    }
-    const normalizedUrl = rawUrl.replace(/\/+$/, "");
-    const endpoint = normalizedUrl.endsWith("/move")
-      ? normalizedUrl
-      : `${normalizedUrl}/move`;
+export async function performTestRun(
+  ctx: ActionCtx,
+  runId: Id<"testRuns">,
+): Promise<TestRunOutcome> {
+  const run = await ctx.runQuery(api.battlesnake.getTestRun, { runId });
+  if (!run) {
+    return { ok: false, error: "Test run not found." };
+  }
+  if (run.status !== "running") {
+    return { ok: false, error: "Test run is not in running state." };
+  }
 
-    const requestBody = {
-      game: {
-        id: test.game?.id ?? `test-${test._id}`,
-        ruleset: test.game?.ruleset ?? {
-          name: "standard",
-          version: "1.0.0",
-          settings: {
-            foodSpawnChance: 0,
-            minimumFood: 0,
-            hazardDamagePerTurn: 100,
-            hazardMap: "custom",
-          },
-        },
-        map: test.game?.map ?? "custom",
-        timeout: test.game?.timeout ?? 500,
-      },
-      turn: test.turn,
-      board: test.board,
-      you,
-    };
+  const test = (await ctx.runQuery(api.battlesnake.getTest, {
+    id: run.testId,
+  })) as TestDoc | null;
+  if (!test) {
+    await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
+      runId,
+      status: "failed",
+      error: "Test not found.",
+    });
+    return { ok: false, error: "Test not found." };
+  }
 
-    try {
-      const fetchStart = Date.now();
-      const response: Response = await fetch(endpoint, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-      });
-      const responseTimeMs = Date.now() - fetchStart;
-      const responseText = await response.text();
-      let data: unknown = null;
-      if (responseText) {
-        try {
-          data = JSON.parse(responseText);
-        } catch {
-          await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
-            runId: args.runId,
-            status: "failed",
-            error: `Non-JSON response (${response.status}).`,
-            httpStatus: response.status,
-            rawResponse: responseText.slice(0, 1000),
-            responseTimeMs,
-          });
-          return { ok: false, error: `Non-JSON response (${response.status}).` };
-        }
-      }
-      if (!response.ok) {
-        await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
-          runId: args.runId,
-          status: "failed",
-          error: `HTTP ${response.status}`,
-          httpStatus: response.status,
-          rawResponse: JSON.stringify(data).slice(0, 1000),
-          responseTimeMs,
-        });
-        return { ok: false, error: `HTTP ${response.status}` };
-      }
-      const move =
-        typeof (data as { move?: unknown })?.move === "string"
-          ? (data as { move: string }).move
-          : null;
-      const shout =
-        typeof (data as { shout?: unknown })?.shout === "string"
-          ? (data as { shout: string }).shout
-          : null;
-      
-      const passed = move !== null && test.expectedSafeMoves.includes(move);
-      
-      await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
-        runId: args.runId,
-        status: "completed",
-        move: move ?? undefined,
-        shout: shout ?? undefined,
-        passed,
-        httpStatus: response.status,
-        rawResponse: JSON.stringify(data).slice(0, 1000),
-        responseTimeMs,
-      });
-      return { ok: true, move, shout, passed, responseTimeMs };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : "Request failed.";
-      await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
-        runId: args.runId,
-        status: "failed",
-        error: errorMsg,
-      });
-      return { ok: false, error: errorMsg };
-    }
-  },
-});
+  const bot = run.botId ? await ctx.runQuery(internal.bots.getRunBot, { botId: run.botId }) : null;
+  const options = { gameId: `test-${test._id}`, lifecycle: run.lifecycle, ...botRunOptions(bot) };
+  const outcomes = [];
+  for (let index = 0; index < (run.repeat ?? 1); index++) {
+    outcomes.push(await runTestAgainstBot(run.botUrl, test, options));
+  }
+  // A repeated run is only as good as its worst repeat, so the first one that
+  // didn't pass is the one recorded.
+  const outcome = outcomes.find((item) => !(item.ok && item.passed)) ?? outcomes[0];
+  const details = {
+    lifecycleSteps: outcome.lifecycleSteps,
+    botInfo: outcome.botInfo,
+    repeatSummary:
+      outcomes.length > 1
+        ? summarizeRepeats(outcomes.map((item) => ({ move: item.move, passed: item.ok && item.passed })))
+        : undefined,
+  };
+  if (!outcome.ok) {
+    await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
+      runId,
+      status: outcome.timedOut ? "timeout" : "failed",
+      move: outcome.move ?? undefined,
+      shout: outcome.shout ?? undefined,
+      passed: outcome.move !== undefined ? false : undefined,
+      error: outcome.error,
+      httpStatus: outcome.status,
+      rawResponse: outcome.rawResponse,
+      responseTimeMs: outcome.responseTimeMs,
+      scenarioMoves: outcome.scenarioMoves,
+      survivedTurns: outcome.survivedTurns,
+      eliminationCause: outcome.eliminationCause,
+      ...details,
+    });
+    return { ok: false, error: outcome.error, timedOut: outcome.timedOut, ...details };
+  }
+  const { move, shout, passed, grade, score, responseTimeMs } = outcome;
+  await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
+    runId,
+    status: "completed",
+    move: move ?? undefined,
+    shout: shout ?? undefined,
+    passed,
+    grade,
+    score,
+    httpStatus: outcome.status,
+    rawResponse: JSON.stringify(outcome.raw).slice(0, 1000),
+    responseTimeMs,
+    scenarioMoves: outcome.scenarioMoves,
+    survivedTurns: outcome.survivedTurns,
+    eliminationCause: outcome.eliminationCause,
+    ...details,
+  });
+  return {
+    ok: true,
+    move,
+    shout,
+    passed,
+    grade,
+    score,
+    responseTimeMs,
+    scenarioMoves: outcome.scenarioMoves,
+    survivedTurns: outcome.survivedTurns,
+    eliminationCause: outcome.eliminationCause,
+    ...details,
+  };
+}
 
 export const updateTestRunResult = internalMutation({
   args: {
     runId: v.id("testRuns"),
-    status: v.union(v.literal("completed"), v.literal("failed")),
+    status: v.union(v.literal("completed"), v.literal("failed"), v.literal("timeout")),
     move: v.optional(v.string()),
     shout: v.optional(v.string()),
     passed: v.optional(v.boolean()),
+    grade: v.optional(moveGrade),
+    score: v.optional(v.number()),
     error: v.optional(v.string()),
     httpStatus: v.optional(v.number()),
     rawResponse: v.optional(v.string()),
     responseTimeMs: v.optional(v.number()),
+    scenarioMoves: v.optional(v.array(v.string())),
+    survivedTurns: v.optional(v.number()),
+    eliminationCause: v.optional(v.string()),
+    lifecycleSteps: v.optional(v.array(lifecycleStep)),
+    botInfo: v.optional(botInfo),
+    repeatSummary: v.optional(repeatSummary),
   },
   handler: async (ctx, args) => {
     await ctx.db.patch(args.runId, {
@@ -1196,10 +1336,18 @@ export const updateTestRunResult = internalMutation({
       move: args.move,
       shout: args.shout,
       passed: args.passed,
+      grade: args.grade,
+      score: args.score,
       error: args.error,
       httpStatus: args.httpStatus,
       rawResponse: args.rawResponse,
       responseTimeMs: args.responseTimeMs,
+      scenarioMoves: args.scenarioMoves,
+      survivedTurns: args.survivedTurns,
+      eliminationCause: args.eliminationCause,
+      lifecycleSteps: args.lifecycleSteps,
+      botInfo: args.botInfo,
+      repeatSummary: args.repeatSummary,
       completedAt: Date.now(),
     });
   },
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { describeBoardIssues, validateBoard } from "./boardValidation";
+import { board, snake } from "./testFixtures";
+
+const small = { width: 5, height: 5 };
+const messages = (value: Parameters<typeof validateBoard>[0]) => validateBoard(value).map((issue) => issue.message);
+
+const you = snake("you", [
+  { x: 1, y: 1 },
+  { x: 1, y: 2 },
+  { x: 1, y: 3 },
+]);
+
+await test("validateBoard accepts a well-formed board", () => {
+  assert.deepEqual(validateBoard(board([you], { ...small, food: [{ x: 3, y: 3 }] })), []);
+});
+
+await test("validateBoard accepts segments stacked at the tail", () => {
+  const fed = snake("you", [{ x: 1, y: 1 }, { x: 1, y: 2 }, { x: 1, y: 2 }]);
+  const fresh = snake("fresh", [{ x: 3, y: 3 }, { x: 3, y: 3 }, { x: 3, y: 3 }]);
+  assert.deepEqual(validateBoard(board([fed, fresh], small)), []);
+});
+
+await test("validateBoard rejects stacked segments that aren't at the tail", () => {
+  const stacked = snake("you", [{ x: 1, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 2 }]);
+  assert.deepEqual(messages(board([stacked], small)), ["you has stacked segments at (1, 1) that are not at its tail."]);
+});
+
+await test("validateBoard rejects gaps, off-board segments and a head that isn't the first segment", () => {
+  const broken = { ...snake("you", [{ x: 1, y: 1 }, { x: 1, y: 3 }, { x: 1, y: 5 }]), head: { x: 0, y: 0 } };
+  assert.deepEqual(messages(board([broken], small)), [
+    "you's head (0, 0) is not the first body segment (1, 1).",
+    "you has segments off the board at (1, 5).",
+    "you's body is not connected between (1, 1) and (1, 3).",
+    "you's body is not connected between (1, 3) and (1, 5).",
+  ]);
+});
+
+await test("validateBoard rejects overlapping snakes and food under a snake", () => {
+  const other = snake("other", [{ x: 1, y: 3 }, { x: 2, y: 3 }]);
+  assert.deepEqual(messages(board([you, other], { ...small, food: [{ x: 1, y: 1 }] })), [
+    "other overlaps you at (1, 3).",
+    "Food at (1, 1) is under you.",
+  ]);
+});
+
+await test("validateBoard rejects a length that doesn't match the body", () => {
+  assert.deepEqual(messages(board([{ ...you, length: 4 }], small)), ["you has length 4 but 3 body segments."]);
+});
+
+await test("describeBoardIssues lists the first three issues and counts the rest", () => {
+  assert.equal(describeBoardIssues([]), null);
+  const issues = ["a.", "b.", "c.", "d.", "e."].map((message) => ({ message, cells: [] }));
+  assert.equal(describeBoardIssues(issues), "Invalid board: a. b. c. (and 2 more)");
+});
@@ -0,0 +1,138 @@
+// Structural checks on a board: things no real game could produce, such as
+// a body with gaps or food under a snake. Shared by the test editor, which
+// marks the offending cells, and the mutations that save tests.
+
+type Coordinate = { x: number; y: number };
+
+type ValidatedBoard = {
+  width: number;
+  height: number;
+  food: Coordinate[];
+  hazards: Coordinate[];
+  snakes: { id: string; name: string; head: Coordinate; body: Coordinate[]; length: number }[];
+};
+
+export type BoardIssue = {
+  message: string;
+  // Cells to highlight in the editor. Cells off the board are left out.
+  cells: Coordinate[];
+};
+
+const key = (point: Coordinate) => `${point.x},${point.y}`;
+
+const sameCell = (a: Coordinate, b: Coordinate) => a.x === b.x && a.y === b.y;
+
+export function validateBoard(board: ValidatedBoard): BoardIssue[] {
+  const issues: BoardIssue[] = [];
+  if (!Number.isInteger(board.width) || !Number.isInteger(board.height) || board.width < 1 || board.height < 1) {
+    return [{ message: "Board width and height must be positive whole numbers.", cells: [] }];
+  }
+  const onBoard = (point: Coordinate) =>
+    Number.isInteger(point.x) &&
+    Number.isInteger(point.y) &&
+    point.x >= 0 &&
+    point.y >= 0 &&
+    point.x < board.width &&
+    point.y < board.height;
+  const describe = (point: Coordinate) => `(${point.x}, ${point.y})`;
+
+  const offFood = board.food.filter((point) => !onBoard(point));
+  if (offFood.length > 0) {
+    issues.push({ message: `Food at ${offFood.map(describe).join(", ")} is off the board.`, cells: [] });
+  }
+  const offHazards = board.hazards.filter((point) => !onBoard(point));
+  if (offHazards.length > 0) {
+    issues.push({ message: `Hazards at ${offHazards.map(describe).join(", ")} are off the board.`, cells: [] });
+  }
+
+  const ids = new Set<string>();
+  const occupiedBy = new Map<string, string>();
+  for (const snake of board.snakes) {
+    const label = snake.name || snake.id;
+    if (ids.has(snake.id)) {
+      issues.push({ message: `More than one snake has the id "${snake.id}".`, cells: snake.body.filter(onBoard) });
+    }
+    ids.add(snake.id);
+    if (snake.body.length === 0) {
+      issues.push({ message: `${label} has no body.`, cells: [] });
+      continue;
+    }
+    if (!sameCell(snake.head, snake.body[0])) {
+      issues.push({
+        message: `${label}'s head ${describe(snake.head)} is not the first body segment ${describe(snake.body[0])}.`,
+        cells: [snake.head, snake.body[0]].filter(onBoard),
+      });
+    }
+    if (snake.length !== snake.body.length) {
+      issues.push({
+        message: `${label} has length ${snake.length} but ${snake.body.length} body segments.`,
+        cells: [snake.body[0]].filter(onBoard),
+      });
+    }
+    const offBody = snake.body.filter((point) => !onBoard(point));
+    if (offBody.length > 0) {
+      issues.push({ message: `${label} has segments off the board at ${offBody.map(describe).join(", ")}.`, cells: [] });
+    }
+
+    // Stacked segments (the same cell twice in a row) are how snakes start
+    // and grow, so only a segment more than one step away is a gap.
+    for (let index = 1; index < snake.body.length; index++) {
+      const previous = snake.body[index - 1];
+      const segment = snake.body[index];
+      if (Math.abs(previous.x - segment.x) + Math.abs(previous.y - segment.y) > 1) {
+        issues.push({
+          message: `${label}'s body is not connected between ${describe(previous)} and ${describe(segment)}.`,
+          cells: [previous, segment].filter(onBoard),
+        });
+      }
+    }
+
+    // In a real game segments only stack at the tail: after eating, or the
+    // whole snake on turn 0.
+    const firstStack = snake.body.findIndex((segment, index) => index > 0 && sameCell(segment, snake.body[index - 1]));
+    if (firstStack !== -1 && snake.body.slice(firstStack).some((segment) => !sameCell(segment, snake.body[firstStack]))) {
+      issues.push({
+        message: `${label} has stacked segments at ${describe(snake.body[firstStack])} that are not at its tail.`,
+        cells: [snake.body[firstStack]].filter(onBoard),
+      });
+    }
+
+    const ownCells = new Set<string>();
+    for (let index = 0; index < snake.body.length; index++) {
+      const segment = snake.body[index];
+      const cell = key(segment);
+      const stacked = index > 0 && sameCell(segment, snake.body[index - 1]);
+      if (ownCells.has(cell) && !stacked) {
+        issues.push({ message: `${label}'s body crosses itself at ${describe(segment)}.`, cells: [segment].filter(onBoard) });
+      }
+      ownCells.add(cell);
+    }
+    for (const cell of ownCells) {
+      const other = occupiedBy.get(cell);
+      if (other !== undefined) {
+        const [x, y] = cell.split(",").map(Number);
+        issues.push({ message: `${label} overlaps ${other} at (${x}, ${y}).`, cells: [{ x, y }] });
+      } else {
+        occupiedBy.set(cell, label);
+      }
+    }
+  }
+
+  for (const point of board.food) {
+    const snake = occupiedBy.get(key(point));
+    if (snake !== undefined) {
+      issues.push({ message: `Food at ${describe(point)} is under ${snake}.`, cells: [point] });
+    }
+  }
+  return issues;
+}
+
+// The message the save mutations throw, listing the first few problems.
+export function describeBoardIssues(issues: BoardIssue[]): string | null {
+  if (issues.length === 0) {
+    return null;
+  }
+  const shown = issues.slice(0, 3).map((issue) => issue.message);
+  const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : "";
+  return `Invalid board: ${shown.join(" ")}${more}`;
+}
@@ -0,0 +1,170 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireUserSession } from "./auth";
+import { MAX_TIMEOUT_MS } from "./scoring";
+import { botHeader } from "./validators";
+
+const MAX_BOTS = 20;
+const MAX_HEADERS = 10;
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const RESERVED_HEADERS = new Set(["content-type", "content-length", "host"]);
+
+const botFields = {
+  name: v.string(),
+  baseUrl: v.string(),
+  headers: v.optional(v.array(botHeader)),
+  timeoutMs: v.optional(v.number()),
+  notes: v.optional(v.string()),
+};
+
+type BotFields = {
+  name: string;
+  baseUrl: string;
+  headers?: { name: string; value: string }[];
+  timeoutMs?: number;
+  notes?: string;
+};
+
+function validateBot(bot: BotFields): string | null {
+  if (!bot.name.trim()) {
+    return "Bot name is required.";
+  }
+  let url: URL;
+  try {
+    url = new URL(bot.baseUrl.trim());
+  } catch {
+    return "Base URL must be a full URL, like https://my-snake.example.com.";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Base URL must use http or https.";
+  }
+  if (bot.timeoutMs !== undefined) {
+    if (!Number.isInteger(bot.timeoutMs) || bot.timeoutMs <= 0 || bot.timeoutMs > MAX_TIMEOUT_MS) {
+      return `Default timeout must be a whole number of milliseconds up to ${MAX_TIMEOUT_MS}.`;
+    }
+  }
+  const headers = bot.headers ?? [];
+  if (headers.length > MAX_HEADERS) {
+    return `A bot can have at most ${MAX_HEADERS} headers.`;
+  }
+  for (const header of headers) {
+    if (!HEADER_NAME_PATTERN.test(header.name)) {
+      return `"${header.name}" is not a valid header name.`;
+    }
+    if (RESERVED_HEADERS.has(header.name.toLowerCase())) {
+      return `The ${header.name} header is set by the runner.`;
+    }
+  }
+  return null;
+}
+
+function toBotRecord(bot: BotFields) {
+  return {
+    name: bot.name.trim(),
+    baseUrl: bot.baseUrl.trim().replace(/\/+$/, ""),
+    headers: bot.headers?.length ? bot.headers : undefined,
+    timeoutMs: bot.timeoutMs,
+    notes: bot.notes?.trim() || undefined,
+  };
+}
+
+export async function requireOwnedBot(
+  ctx: { db: QueryCtx["db"] },
+  userId: string,
+  botId: Id<"bots">,
+) {
+  const bot = await ctx.db.get("bots", botId);
+  if (!bot || bot.userId !== userId) {
+    throw new Error("Bot not found.");
+  }
+  return bot;
+}
+
+// The runner options a saved bot contributes to a run.
+export function botRunOptions(bot: Doc<"bots"> | null) {
+  if (!bot) {
+    return {};
+  }
+  return {
+    headers: Object.fromEntries((bot.headers ?? []).map((header) => [header.name, header.value])),
+    defaultTimeoutMs: bot.timeoutMs,
+  };
+}
+
+export const listBots = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    return await ctx.db
+      .query("bots")
+      .withIndex("by_userId", (q) => q.eq("userId", userId as Id<"users">))
+      .collect();
+  },
+});
+
+export const createBot = mutation({
+  args: { token: v.string(), ...botFields },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const error = validateBot(args);
+    if (error) {
+      throw new Error(error);
+    }
+    const existing = await ctx.db
+      .query("bots")
+      .withIndex("by_userId", (q) => q.eq("userId", userId as Id<"users">))
+      .collect();
+    if (existing.length >= MAX_BOTS) {
+      throw new Error(`You can save at most ${MAX_BOTS} bots.`);
+    }
+    const now = Date.now();
+    return await ctx.db.insert("bots", {
+      userId: userId as Id<"users">,
+      ...toBotRecord(args),
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateBot = mutation({
+  args: { token: v.string(), botId: v.id("bots"), ...botFields },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    await requireOwnedBot(ctx, userId, args.botId);
+    const error = validateBot(args);
+    if (error) {
+      throw new Error(error);
+    }
+    await ctx.db.patch("bots", args.botId, { ...toBotRecord(args), updatedAt: Date.now() });
+  },
+});
+
+// Past runs keep their botId and botUrl, so history still lists the deleted
+// bot (by URL) for as long as its recent runs are there.
+export const deleteBot = mutation({
+  args: { token: v.string(), botId: v.id("bots") },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    await requireOwnedBot(ctx, userId, args.botId);
+    await ctx.db.delete("bots", args.botId);
+  },
+});
+
+export const getRunBot = internalQuery({
+  args: { botId: v.id("bots") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get("bots", args.botId);
+  },
+});
+
+export const getOwnedBot = internalQuery({
+  args: { token: v.string(), botId: v.id("bots") },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const bot = await ctx.db.get("bots", args.botId);
+    return bot && bot.userId === userId ? bot : null;
+  },
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { BUNDLE_FORMAT, BUNDLE_VERSION, createBundle, hashBoard, parseBundle } from "./bundleFormat";
+import type { BundleTest } from "./bundleFormat";
+
+const sample: BundleTest = {
+  name: "Avoid the wall",
+  board: {
+    width: 11,
+    height: 11,
+    food: [{ x: 1, y: 1 }, { x: 9, y: 9 }],
+    hazards: [],
+    snakes: [
+      { id: "you", name: "You", health: 90, body: [{ x: 0, y: 5 }, { x: 1, y: 5 }], head: { x: 0, y: 5 }, length: 2 },
+    ],
+  },
+  turn: 3,
+  youId: "you",
+  expectedSafeMoves: ["up", "down"],
+};
+
+await test("createBundle round-trips through parseBundle", () => {
+  const bundle = createBundle([{ ...sample, ownerId: "someone" } as BundleTest], "Walls");
+  assert.equal(bundle.format, BUNDLE_FORMAT);
+  assert.ok(!("ownerId" in bundle.tests[0]));
+  const parsed = parseBundle(JSON.stringify(bundle));
+  assert.ok(parsed.ok);
+  assert.equal(parsed.bundle.name, "Walls");
+  assert.deepEqual(parsed.bundle.tests[0].board, sample.board);
+});
+
+await test("parseBundle rejects other formats and newer versions", () => {
+  assert.deepEqual(parseBundle("not json"), { ok: false, error: "That isn't valid JSON." });
+  assert.equal(parseBundle(JSON.stringify({ format: "other" })).ok, false);
+  const newer = parseBundle(JSON.stringify({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION + 1 }));
+  assert.deepEqual(newer, {
+    ok: false,
+    error: `Bundle version ${BUNDLE_VERSION + 1} is newer than this app supports (${BUNDLE_VERSION}).`,
+  });
+});
+
+await test("parseBundle rejects a test that doesn't match the schema", () => {
+  const bundle = { ...createBundle([sample]), tests: [{ ...sample, turn: "three" }] };
+  assert.equal(parseBundle(JSON.stringify(bundle)).ok, false);
+});
+
+await test("hashBoard ignores food and hazard order but not the snake we play", () => {
+  const reordered = { ...sample.board, food: [...sample.board.food].reverse() };
+  assert.equal(hashBoard(reordered, "you"), hashBoard(sample.board, "you"));
+  assert.notEqual(hashBoard(sample.board, "other"), hashBoard(sample.board, "you"));
+  const moved = { ...sample.board, food: [{ x: 2, y: 2 }, { x: 9, y: 9 }] };
+  assert.notEqual(hashBoard(moved, "you"), hashBoard(sample.board, "you"));
+});
@@ -0,0 +1,118 @@
+// Portable test bundles: a versioned JSON format for backing up and sharing
+// tests outside the app. Pure so the client and the CLI can read bundles too.
+
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import { board, checkValue, game, scenario } from "./validators";
+
+export const BUNDLE_FORMAT = "snek-testing-bundle";
+export const BUNDLE_VERSION = 1;
+
+export const bundleTest = v.object({
+  name: v.string(),
+  description: v.optional(v.string()),
+  board,
+  game,
+  turn: v.number(),
+  youId: v.string(),
+  expectedSafeMoves: v.array(v.string()),
+  preferredMove: v.optional(v.string()),
+  forbiddenMoves: v.optional(v.array(v.string())),
+  scenario,
+  latencyBudgetMs: v.optional(v.number()),
+});
+
+export const bundle = v.object({
+  format: v.literal(BUNDLE_FORMAT),
+  version: v.literal(BUNDLE_VERSION),
+  name: v.optional(v.string()),
+  exportedAt: v.number(),
+  tests: v.array(bundleTest),
+});
+
+export type BundleTest = Infer<typeof bundleTest>;
+export type Bundle = Infer<typeof bundle>;
+
+type Board = Infer<typeof board>;
+
+export function toBundleTest(test: BundleTest): BundleTest {
+  return {
+    name: test.name,
+    description: test.description,
+    board: test.board,
+    game: test.game,
+    turn: test.turn,
+    youId: test.youId,
+    expectedSafeMoves: test.expectedSafeMoves,
+    preferredMove: test.preferredMove,
+    forbiddenMoves: test.forbiddenMoves,
+    scenario: test.scenario,
+    latencyBudgetMs: test.latencyBudgetMs,
+  };
+}
+
+export function createBundle(tests: BundleTest[], name?: string): Bundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    name,
+    exportedAt: Date.now(),
+    tests: tests.map(toBundleTest),
+  };
+}
+
+export type BundleParseResult = { ok: true; bundle: Bundle } | { ok: false; error: string };
+
+// JSON.stringify drops undefined fields, so a parsed bundle only carries the
+// fields that were set and can be passed straight to the import mutation.
+export function parseBundle(text: string): BundleParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "That isn't valid JSON." };
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return { ok: false, error: "Expected a JSON object." };
+  }
+  const { format, version } = parsed as { format?: unknown; version?: unknown };
+  if (format !== BUNDLE_FORMAT) {
+    return { ok: false, error: `Not a test bundle (format must be "${BUNDLE_FORMAT}").` };
+  }
+  if (typeof version === "number" && version > BUNDLE_VERSION) {
+    return {
+      ok: false,
+      error: `Bundle version ${version} is newer than this app supports (${BUNDLE_VERSION}).`,
+    };
+  }
+  const error = checkValue(bundle, parsed, "bundle");
+  if (error) {
+    return { ok: false, error };
+  }
+  return { ok: true, bundle: parsed as Bundle };
+}
+
+function canonicalBoard(value: Board) {
+  const point = (item: { x: number; y: number }) => `${item.x},${item.y}`;
+  const points = (items: { x: number; y: number }[]) => items.map(point).sort().join(" ");
+  const snakes = [...value.snakes]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((item) => `${item.id}:${item.health}:${item.body.map(point).join(" ")}`);
+  return [`${value.width}x${value.height}`, points(value.food), points(value.hazards), ...snakes].join("|");
+}
+
+// Identifies a position regardless of food/hazard ordering, so re-importing
+// the same bundle (or an export of a test you already have) is a no-op.
+export function hashBoard(value: Board, youId: string) {
+  const text = `${youId}|${canonicalBoard(value)}`;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, "0") + (h1 >>> 0).toString(16).padStart(8, "0");
+}
@@ -0,0 +1,181 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { requireUserSession } from "./auth";
+import { describeBoardIssues, validateBoard } from "./boardValidation";
+import { bundle, createBundle, hashBoard } from "./bundleFormat";
+import { validateExpectations } from "./scoring";
+import { validateScenario } from "./scenario";
+
+const MAX_IMPORT_TESTS = 200;
+const BACKFILL_PAGE_SIZE = 100;
+
+async function collectionTestDocs(ctx: QueryCtx, collectionId: Id<"collections">) {
+  const collectionTests = await ctx.db
+    .query("collectionTests")
+    .withIndex("by_collectionId", (q) => q.eq("collectionId", collectionId))
+    .collect();
+  const tests = [];
+  for (const ct of collectionTests) {
+    const test = await ctx.db.get("tests", ct.testId);
+    if (test) {
+      tests.push(test);
+    }
+  }
+  return tests;
+}
+
+export const exportTest = query({
+  args: { token: v.string(), testId: v.id("tests") },
+  handler: async (ctx, args) => {
+    const { userId, isAdmin } = await requireUserSession(ctx, args.token);
+    const test = await ctx.db.get("tests", args.testId);
+    if (!test) {
+      throw new Error("Test not found.");
+    }
+    if (test.ownerId !== userId && test.status !== "approved" && !isAdmin) {
+      throw new Error("You don't have permission to export this test.");
+    }
+    return createBundle([test], test.name);
+  },
+});
+
+export const exportCollection = query({
+  args: { token: v.string(), collectionId: v.id("collections") },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const collection = await ctx.db.get("collections", args.collectionId);
+    if (!collection) {
+      throw new Error("Collection not found.");
+    }
+    if (collection.ownerId !== userId && !collection.isPublic) {
+      throw new Error("You don't have permission to export this collection.");
+    }
+    return createBundle(await collectionTestDocs(ctx, collection._id), collection.name);
+  },
+});
+
+// Lets tools outside the app (see scripts/run-suite.ts) fetch a shared
+// collection without a session.
+export const exportCollectionBySlug = query({
+  args: { slug: v.string() },
+  handler: async (ctx, args) => {
+    const collection = await ctx.db
+      .query("collections")
+      .withIndex("by_shareSlug", (q) => q.eq("shareSlug", args.slug))
+      .first();
+    if (!collection || !collection.isPublic) {
+      return null;
+    }
+    return createBundle(await collectionTestDocs(ctx, collection._id), collection.name);
+  },
+});
+
+export const exportMyTests = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const tests = await ctx.db
+      .query("tests")
+      .withIndex("by_ownerId", (q) => q.eq("ownerId", userId as Id<"users">))
+      .order("desc")
+      .collect();
+    return createBundle(tests, "My Tests");
+  },
+});
+
+// Tests whose board already exists among the importer's own tests or the
+// approved public tests are skipped rather than duplicated.
+export const importBundle = mutation({
+  args: {
+    token: v.string(),
+    bundle,
+    status: v.union(v.literal("private"), v.literal("pending")),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const user = await ctx.db.get("users", userId as Id<"users">);
+    if (args.status === "pending" && user?.bannedFromPendingTests) {
+      throw new Error("You are not allowed to submit tests for public review. You can still import tests as private.");
+    }
+    if (args.bundle.tests.length > MAX_IMPORT_TESTS) {
+      throw new Error(`A bundle can hold at most ${MAX_IMPORT_TESTS} tests.`);
+    }
+
+    // Hashes of tests imported earlier in this same bundle.
+    const knownHashes = new Set<string>();
+    const isDuplicate = async (hash: string) => {
+      if (knownHashes.has(hash)) {
+        return true;
+      }
+      const matches = await ctx.db
+        .query("tests")
+        .withIndex("by_boardHash", (q) => q.eq("boardHash", hash))
+        .collect();
+      return matches.some((match) => match.ownerId === userId || match.status === "approved");
+    };
+
+    let imported = 0;
+    let duplicates = 0;
+    const skipped: { name: string; reason: string }[] = [];
+    for (const test of args.bundle.tests) {
+      const hash = hashBoard(test.board, test.youId);
+      if (await isDuplicate(hash)) {
+        duplicates++;
+        continue;
+      }
+      const reason = !test.board.snakes.some((snakeItem) => snakeItem.id === test.youId)
+        ? "youId must match a snake in the board."
+        : (describeBoardIssues(validateBoard(test.board)) ??
+          validateExpectations(test) ??
+          validateScenario(test));
+      if (reason) {
+        skipped.push({ name: test.name, reason });
+        continue;
+      }
+      await ctx.db.insert("tests", {
+        name: test.name,
+        description: test.description,
+        board: test.board,
+        game: test.game,
+        turn: test.turn,
+        youId: test.youId,
+        boardHash: hash,
+        expectedSafeMoves: test.expectedSafeMoves,
+        preferredMove: test.preferredMove,
+        forbiddenMoves: test.forbiddenMoves,
+        scenario: test.scenario,
+        latencyBudgetMs: test.latencyBudgetMs,
+        createdAt: Date.now(),
+        ownerId: userId as Id<"users">,
+        status: args.status,
+      });
+      knownHashes.add(hash);
+      imported++;
+    }
+    return { imported, duplicates, skipped };
+  },
+});
+
+// Fills in `boardHash` on tests saved before it was stored, a page at a time.
+// Run once with `npx convex run bundles:backfillBoardHashes`.
+export const backfillBoardHashes = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("tests")
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_PAGE_SIZE });
+    for (const test of page.page) {
+      if (test.boardHash === undefined) {
+        await ctx.db.patch("tests", test._id, { boardHash: hashBoard(test.board, test.youId) });
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.bundles.backfillBoardHashes, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
@@ -0,0 +1,74 @@
+import { v } from "convex/values";
+import { action } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { botRunOptions } from "./bots";
+import { runTestAgainstBot } from "./runner";
+import { fuzzVariants } from "./variants";
+
+type VariantResult = {
+  label: string;
+  expectedSafeMoves: string[];
+  move?: string | null;
+  passed: boolean;
+  error?: string;
+  responseTimeMs?: number;
+};
+
+type FuzzResult =
+  | { ok: true; seed: number; original: VariantResult; variants: VariantResult[] }
+  | { ok: false; error: string };
+
+// Runs the test and each of its fuzzed variants against the bot, one at a
+// time. A variant fails when the move is no longer one the remapped test
+// expects.
+export const fuzzTest = action({
+  args: {
+    testId: v.id("tests"),
+    url: v.string(),
+    token: v.optional(v.string()),
+    botId: v.optional(v.id("bots")),
+    seed: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<FuzzResult> => {
+    const test = await ctx.runQuery(api.battlesnake.getTest, { id: args.testId });
+    if (!test) {
+      return { ok: false, error: "Test not found." };
+    }
+
+    let bot: Doc<"bots"> | null = null;
+    if (args.botId) {
+      if (!args.token) {
+        return { ok: false, error: "Log in to run against a saved bot." };
+      }
+      bot = await ctx.runQuery(internal.bots.getOwnedBot, { token: args.token, botId: args.botId });
+      if (!bot) {
+        return { ok: false, error: "Bot not found." };
+      }
+    }
+
+    const seed = args.seed ?? Math.floor(Math.random() * 2 ** 31);
+    const botUrl = bot?.baseUrl ?? args.url;
+    const runVariant = async (label: string, variant: Doc<"tests">, index: number) => {
+      const outcome = await runTestAgainstBot(botUrl, variant, {
+        gameId: `fuzz-${test._id}-${index}`,
+        ...botRunOptions(bot),
+      });
+      const result: VariantResult = {
+        label,
+        expectedSafeMoves: variant.expectedSafeMoves,
+        move: outcome.move,
+        passed: outcome.ok && outcome.passed,
+        responseTimeMs: outcome.responseTimeMs,
+      };
+      return outcome.ok ? result : { ...result, error: outcome.error };
+    };
+
+    const original = await runVariant("Original", test, 0);
+    const variants: VariantResult[] = [];
+    for (const [index, variant] of fuzzVariants(test, seed).entries()) {
+      variants.push(await runVariant(variant.label, variant.test, index + 1));
+    }
+    return { ok: true, seed, original, variants };
+  },
+});
@@ -0,0 +1,150 @@
+// Generators for the common hazard layouts, so test authors don't have to
+// paint them cell by cell. Each preset also names the hazard map and damage
+// the real game uses with it.
+
+import { seededRandom } from "./variants";
+
+type Coordinate = { x: number; y: number };
+
+export type HazardPreset = "royale" | "arcade-maze" | "spiral" | "pits";
+
+export const HAZARD_PRESETS: HazardPreset[] = ["royale", "arcade-maze", "spiral", "pits"];
+
+export const HAZARD_PRESET_LABELS: Record<HazardPreset, string> = {
+  royale: "Royale ring",
+  "arcade-maze": "Arcade maze",
+  spiral: "Spiral",
+  pits: "Hazard pits",
+};
+
+const HAZARD_MAPS: Record<HazardPreset, string> = {
+  royale: "royale",
+  "arcade-maze": "arcade_maze",
+  spiral: "hz_spiral",
+  pits: "hz_hazard_pits",
+};
+
+// Maze walls are meant to be impassable, so they kill on contact.
+const HAZARD_DAMAGE: Record<HazardPreset, number> = {
+  royale: 14,
+  "arcade-maze": 100,
+  spiral: 14,
+  pits: 14,
+};
+
+export const ROYALE_SHRINK_EVERY_N_TURNS = 25;
+
+export type HazardLayout = {
+  hazards: Coordinate[];
+  hazardMap: string;
+  hazardDamagePerTurn: number;
+};
+
+// The ring closes in by one cell on every side each `ROYALE_SHRINK_EVERY_N_TURNS`
+// turns. Real games shrink one random side at a time; an even ring keeps the
+// test reproducible.
+function royaleRing(width: number, height: number, turn: number) {
+  const depth = Math.floor(turn / ROYALE_SHRINK_EVERY_N_TURNS);
+  const hazards: Coordinate[] = [];
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      if (x < depth || y < depth || x >= width - depth || y >= height - depth) {
+        hazards.push({ x, y });
+      }
+    }
+  }
+  return hazards;
+}
+
+// A maze carved between cells with odd coordinates, then opened up with a
+// few extra gaps so there are loops like the arcade map. The seed is fixed,
+// so a board size always gets the same maze.
+function arcadeMaze(width: number, height: number) {
+  const random = seededRandom(width * 1000 + height);
+  const open = new Set<string>();
+  const key = (x: number, y: number) => `${x},${y}`;
+  const isRoom = (x: number, y: number) => x > 0 && y > 0 && x < width - 1 && y < height - 1 && x % 2 === 1 && y % 2 === 1;
+  const stack: Coordinate[] = [{ x: 1, y: 1 }];
+  open.add(key(1, 1));
+  while (stack.length > 0) {
+    const { x, y } = stack[stack.length - 1];
+    const next = [
+      { x: x + 2, y },
+      { x: x - 2, y },
+      { x, y: y + 2 },
+      { x, y: y - 2 },
+    ].filter((room) => isRoom(room.x, room.y) && !open.has(key(room.x, room.y)));
+    if (next.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const room = next[Math.floor(random() * next.length)];
+    open.add(key((x + room.x) / 2, (y + room.y) / 2));
+    open.add(key(room.x, room.y));
+    stack.push(room);
+  }
+  const hazards: Coordinate[] = [];
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      const between = x > 0 && y > 0 && x < width - 1 && y < height - 1 && (x % 2 === 1) !== (y % 2 === 1);
+      if (!open.has(key(x, y)) && !(between && random() < 0.15)) {
+        hazards.push({ x, y });
+      }
+    }
+  }
+  return hazards;
+}
+
+// A square spiral out from the centre with one-cell corridors between arms.
+function spiral(width: number, height: number) {
+  const hazards: Coordinate[] = [];
+  const directions = [
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+    { x: 0, y: -1 },
+  ];
+  let x = Math.floor((width - 1) / 2);
+  let y = Math.floor((height - 1) / 2);
+  hazards.push({ x, y });
+  for (let leg = 0; leg < 2 * Math.max(width, height); leg++) {
+    const direction = directions[leg % 4];
+    const length = 2 * (Math.floor(leg / 2) + 1);
+    for (let step = 0; step < length; step++) {
+      x += direction.x;
+      y += direction.y;
+      if (x >= 0 && y >= 0 && x < width && y < height) {
+        hazards.push({ x, y });
+      }
+    }
+  }
+  return hazards;
+}
+
+// 2x2 pits spread evenly over the board, kept off the edges.
+function pits(width: number, height: number) {
+  const hazards: Coordinate[] = [];
+  for (let x = 2; x + 1 < width - 1; x += 4) {
+    for (let y = 2; y + 1 < height - 1; y += 4) {
+      hazards.push({ x, y }, { x: x + 1, y }, { x, y: y + 1 }, { x: x + 1, y: y + 1 });
+    }
+  }
+  return hazards;
+}
+
+export function generateHazards(
+  preset: HazardPreset,
+  board: { width: number; height: number },
+  turn = 0,
+): HazardLayout {
+  const { width, height } = board;
+  const hazards =
+    preset === "royale"
+      ? royaleRing(width, height, turn)
+      : preset === "arcade-maze"
+        ? arcadeMaze(width, height)
+        : preset === "spiral"
+          ? spiral(width, height)
+          : pits(width, height);
+  return { hazards, hazardMap: HAZARD_MAPS[preset], hazardDamagePerTurn: HAZARD_DAMAGE[preset] };
+}
@@ -0,0 +1,175 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireUserSession } from "./auth";
+
+export type RunChange = "regression" | "fixed";
+
+// Compares a run with the previous run of the same test against the same bot.
+export function classifyChange(
+  previousPassed: boolean | undefined,
+  passed: boolean,
+): RunChange | undefined {
+  if (previousPassed === true && !passed) {
+    return "regression";
+  }
+  if (previousPassed === false && passed) {
+    return "fixed";
+  }
+  return undefined;
+}
+
+function runPassed(run: Doc<"testRuns">) {
+  return run.status === "completed" && run.passed === true;
+}
+
+// Runs are grouped by saved bot when they have one, and by the raw URL they
+// were sent to otherwise.
+const runTarget = {
+  botId: v.optional(v.id("bots")),
+  botUrl: v.optional(v.string()),
+};
+
+// Deleted bots stay listed, labelled by their URL, as long as recent runs
+// still point at them.
+export const listRunTargets = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const bots = await ctx.db
+      .query("bots")
+      .withIndex("by_userId", (q) => q.eq("userId", userId as Id<"users">))
+      .collect();
+    const suiteRuns = await ctx.db
+      .query("suiteRuns")
+      .withIndex("by_userId", (q) => q.eq("userId", userId as Id<"users">))
+      .order("desc")
+      .take(100);
+    const testRuns = await ctx.db
+      .query("testRuns")
+      .withIndex("by_userId", (q) => q.eq("userId", userId as Id<"users">))
+      .order("desc")
+      .take(200);
+    const savedBotIds = new Set(bots.map((bot) => bot._id));
+    const deletedBots = new Map<Id<"bots">, string>();
+    const urls = new Set<string>();
+    for (const run of [...suiteRuns, ...testRuns]) {
+      if (!run.botId) {
+        urls.add(run.botUrl);
+      } else if (!savedBotIds.has(run.botId) && !deletedBots.has(run.botId)) {
+        deletedBots.set(run.botId, run.botUrl);
+      }
+    }
+    return {
+      bots: [
+        ...bots.map((bot) => ({ _id: bot._id, name: bot.name, baseUrl: bot.baseUrl })),
+        ...Array.from(deletedBots, ([botId, botUrl]) => ({
+          _id: botId,
+          name: `${botUrl} (deleted)`,
+          baseUrl: botUrl,
+        })),
+      ],
+      urls: Array.from(urls),
+    };
+  },
+});
+
+export const getTestHistory = query({
+  args: {
+    token: v.string(),
+    ...runTarget,
+    testId: v.id("tests"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const { botId, botUrl } = args;
+    const runs = botId
+      ? await ctx.db
+          .query("testRuns")
+          .withIndex("by_userId_botId_testId", (q) =>
+            q.eq("userId", userId as Id<"users">).eq("botId", botId).eq("testId", args.testId),
+          )
+          .order("desc")
+          .take(args.limit ?? 20)
+      : await ctx.db
+          .query("testRuns")
+          .withIndex("by_userId_botUrl_testId", (q) =>
+            q
+              .eq("userId", userId as Id<"users">)
+              .eq("botUrl", botUrl ?? "")
+              .eq("testId", args.testId),
+          )
+          .filter((q) => q.eq(q.field("botId"), undefined))
+          .order("desc")
+          .take(args.limit ?? 20);
+    const finished = runs.filter((run) => run.status !== "running");
+    return finished.map((run, index) => {
+      const previous = finished[index + 1];
+      return {
+        run,
+        passed: runPassed(run),
+        change: classifyChange(previous ? runPassed(previous) : undefined, runPassed(run)),
+      };
+    });
+  },
+});
+
+// Returns the bot's recent completed suite runs, oldest first, with each
+// test's result diffed against the previous suite run that included it.
+export const getSuiteHistory = query({
+  args: {
+    token: v.string(),
+    ...runTarget,
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const { botId, botUrl } = args;
+    const suiteRuns = botId
+      ? await ctx.db
+          .query("suiteRuns")
+          .withIndex("by_userId_botId", (q) =>
+            q.eq("userId", userId as Id<"users">).eq("botId", botId),
+          )
+          .order("desc")
+          .take(args.limit ?? 10)
+      : await ctx.db
+          .query("suiteRuns")
+          .withIndex("by_userId_botUrl", (q) =>
+            q.eq("userId", userId as Id<"users">).eq("botUrl", botUrl ?? ""),
+          )
+          .filter((q) => q.eq(q.field("botId"), undefined))
+          .order("desc")
+          .take(args.limit ?? 10);
+    const completed = suiteRuns.filter((suiteRun) => suiteRun.status === "completed").reverse();
+
+    const lastPassed = new Map<Id<"tests">, boolean>();
+    const columns = [];
+    for (const suiteRun of completed) {
+      const runs = await ctx.db
+        .query("testRuns")
+        .withIndex("by_suiteRunId", (q) => q.eq("suiteRunId", suiteRun._id))
+        .collect();
+      const results = runs.map((run) => {
+        const passed = runPassed(run);
+        const change = classifyChange(lastPassed.get(run.testId), passed);
+        lastPassed.set(run.testId, passed);
+        return { testId: run.testId, status: run.status, passed, change };
+      });
+      columns.push({
+        suiteRun,
+        results,
+        regressions: results.filter((result) => result.change === "regression").length,
+        fixed: results.filter((result) => result.change === "fixed").length,
+      });
+    }
+
+    const tests = [];
+    for (const testId of lastPassed.keys()) {
+      const test = await ctx.db.get("tests", testId);
+      tests.push({ _id: testId, name: test?.name ?? "Deleted test" });
+    }
+    return { tests, suites: columns };
+  },
+});
@@ -0,0 +1,220 @@
+import { httpRouter } from "convex/server";
+import { httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { ActionCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { hashApiKey } from "./apiKeys";
+
+type SuiteReport = {
+  suiteRun: Doc<"suiteRuns">;
+  results: { testName: string; run: Doc<"testRuns"> }[];
+};
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function describeFailure(run: Doc<"testRuns">) {
+  if (run.error) {
+    return run.error;
+  }
+  if (run.scenarioMoves) {
+    return `Eliminated after ${run.survivedTurns ?? 0} turns (${run.eliminationCause ?? "scenario goal not met"}).`;
+  }
+  return `Unexpected move: ${run.move ?? "none"}${run.grade === "forbidden" ? " (forbidden)" : ""}.`;
+}
+
+function toJUnit(collectionName: string, report: SuiteReport) {
+  const { suiteRun, results } = report;
+  const seconds = (ms?: number) => ((ms ?? 0) / 1000).toFixed(3);
+  const totalMs = (suiteRun.completedAt ?? Date.now()) - suiteRun.startedAt;
+  const cases = results.map(({ testName, run }) => {
+    const open = `    <testcase name="${escapeXml(testName)}" classname="${escapeXml(collectionName)}" time="${seconds(run.responseTimeMs)}"`;
+    if (run.status === "completed" && run.passed) {
+      return `${open} />`;
+    }
+    const message = escapeXml(describeFailure(run));
+    const element =
+      run.status === "failed"
+        ? `<error message="${message}" />`
+        : `<failure message="${message}" type="${run.status}" />`;
+    return `${open}>\n      ${element}\n    </testcase>`;
+  });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites tests="${suiteRun.totalTests}" failures="${suiteRun.failCount}" errors="${suiteRun.errorCount}" time="${seconds(totalMs)}">`,
+    `  <testsuite name="${escapeXml(collectionName)}" tests="${suiteRun.totalTests}" failures="${suiteRun.failCount}" errors="${suiteRun.errorCount}" time="${seconds(totalMs)}">`,
+    ...cases,
+    `  </testsuite>`,
+    `</testsuites>`,
+    ``,
+  ].join("\n");
+}
+
+function toJson(collectionName: string, report: SuiteReport) {
+  const { suiteRun, results } = report;
+  return {
+    suiteRunId: suiteRun._id,
+    collection: collectionName,
+    botUrl: suiteRun.botUrl,
+    success: suiteRun.passCount === suiteRun.totalTests,
+    summary: {
+      total: suiteRun.totalTests,
+      passed: suiteRun.passCount,
+      failed: suiteRun.failCount,
+      errors: suiteRun.errorCount,
+      timeouts: suiteRun.timeoutCount ?? 0,
+      p50LatencyMs: suiteRun.p50LatencyMs,
+      p95LatencyMs: suiteRun.p95LatencyMs,
+    },
+    tests: results.map(({ testName, run }) => ({
+      name: testName,
+      status: run.status,
+      passed: run.status === "completed" && run.passed === true,
+      move: run.move,
+      grade: run.grade,
+      error: run.status === "completed" && run.passed ? undefined : describeFailure(run),
+      responseTimeMs: run.responseTimeMs,
+      lifecycleSteps: run.lifecycleSteps,
+    })),
+  };
+}
+
+async function authenticate(ctx: ActionCtx, request: Request) {
+  const authorization = request.headers.get("Authorization") ?? "";
+  const apiKey = authorization.replace(/^Bearer\s+/i, "").trim();
+  if (!apiKey) {
+    return jsonResponse({ error: "Missing API key." }, 401);
+  }
+  const auth = await ctx.runMutation(internal.apiKeys.authenticateApiKey, {
+    keyHash: await hashApiKey(apiKey),
+  });
+  if (!auth) {
+    return jsonResponse({ error: "Invalid or revoked API key." }, 401);
+  }
+  return auth;
+}
+
+// POST /api/suites/:slug/run with `Authorization: Bearer <api key>` and a
+// JSON body of `{ "botUrl": "...", "lifecycle": true }` (lifecycle is optional
+// and adds the /, /start and /end calls). The suite runs in the background, so
+// this responds 202 with the `suiteRunId` to poll at `statusUrl`.
+const runSuiteBySlug = httpAction(async (ctx, request) => {
+  const url = new URL(request.url);
+  const match = url.pathname.match(/^\/api\/suites\/([^/]+)\/run\/?$/);
+  if (!match) {
+    return jsonResponse({ error: "Not found." }, 404);
+  }
+  const slug = decodeURIComponent(match[1]);
+
+  const auth = await authenticate(ctx, request);
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  let body: { botUrl?: unknown; lifecycle?: unknown };
+  try {
+    body = (await request.json()) as { botUrl?: unknown; lifecycle?: unknown };
+  } catch {
+    return jsonResponse({ error: "Request body must be JSON." }, 400);
+  }
+  const { botUrl, lifecycle } = body;
+  if (typeof botUrl !== "string" || !botUrl.trim()) {
+    return jsonResponse({ error: "botUrl is required." }, 400);
+  }
+  if (lifecycle !== undefined && typeof lifecycle !== "boolean") {
+    return jsonResponse({ error: "lifecycle must be true or false." }, 400);
+  }
+
+  let suiteRunId: Id<"suiteRuns">;
+  try {
+    ({ suiteRunId } = await ctx.runMutation(internal.suites.createSuiteRunForSlug, {
+      userId: auth.userId,
+      slug,
+      botUrl: botUrl.trim(),
+      lifecycle,
+    }));
+  } catch (error) {
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Failed to start suite." },
+      400,
+    );
+  }
+  return jsonResponse(
+    { suiteRunId, status: "running", statusUrl: `${url.origin}/api/suites/runs/${suiteRunId}` },
+    202,
+  );
+});
+
+// GET /api/suites/runs/:suiteRunId with the same API key. Responds 202 with
+// progress while the suite is running. Once it completes, responds 200 when
+// every test passed and 422 otherwise, so `curl --fail-with-body` exits
+// non-zero on a failing suite. Add `?format=junit` for JUnit XML.
+const getSuiteRunById = httpAction(async (ctx, request) => {
+  const url = new URL(request.url);
+  const match = url.pathname.match(/^\/api\/suites\/runs\/([^/]+)\/?$/);
+  if (!match) {
+    return jsonResponse({ error: "Not found." }, 404);
+  }
+
+  const auth = await authenticate(ctx, request);
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const report = await ctx.runQuery(internal.suites.getSuiteRunReport, {
+    userId: auth.userId,
+    suiteRunId: decodeURIComponent(match[1]),
+  });
+  if (!report) {
+    return jsonResponse({ error: "Suite run not found." }, 404);
+  }
+  const { suiteRun, collectionName } = report;
+  if (suiteRun.status === "running") {
+    return jsonResponse(
+      {
+        suiteRunId: suiteRun._id,
+        status: suiteRun.status,
+        completed: suiteRun.completedCount,
+        total: suiteRun.totalTests,
+      },
+      202,
+    );
+  }
+  const status = suiteRun.passCount === suiteRun.totalTests ? 200 : 422;
+  if (url.searchParams.get("format") === "junit") {
+    return new Response(toJUnit(collectionName, report), {
+      status,
+      headers: { "Content-Type": "application/xml" },
+    });
+  }
+  return jsonResponse(toJson(collectionName, report), status);
+});
+
+const http = httpRouter();
+
+http.route({
+  pathPrefix: "/api/suites/",
+  method: "POST",
+  handler: runSuiteBySlug,
+});
+
+http.route({
+  pathPrefix: "/api/suites/runs/",
+  method: "GET",
+  handler: getSuiteRunById,
+});
+
+export default http;
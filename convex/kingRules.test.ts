@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { applyKingTurn, calculateWinners } from "./kingRules";
+import type { KingSnake } from "./kingRules";
+import { board, snake } from "./testFixtures";
+
+function teamSnake(id: string, team: string, length: number, isKing = false): KingSnake {
+  const body = Array.from({ length }, (_, index) => ({ x: index, y: team === "red" ? 0 : 5 }));
+  return { ...snake(id, body), team, isKing };
+}
+
+const redKing = teamSnake("red-king", "red", 4, true);
+const redPawn = teamSnake("red-pawn", "red", 3);
+const blueKing = teamSnake("blue-king", "blue", 3, true);
+const bluePawn = teamSnake("blue-pawn", "blue", 5);
+const initial = board([redKing, redPawn, blueKing, bluePawn]);
+
+const winnerIds = (winners: ReturnType<typeof calculateWinners>) => winners.map((winner) => winner.snakeId).sort();
+
+await test("calculateWinners returns no winners while more than one team is alive", () => {
+  assert.deepEqual(calculateWinners(initial, initial, initial, { turn: 10 }), []);
+});
+
+await test("calculateWinners names every snake on the last team alive, including eliminated teammates", () => {
+  const winners = calculateWinners(initial, initial, board([redKing]), { turn: 10 });
+  assert.deepEqual(winnerIds(winners), ["red-king", "red-pawn"]);
+  assert.ok(winners.every((winner) => winner.team === "red" && winner.teamScore === 4));
+});
+
+await test("calculateWinners settles a turn where every team is eliminated on the previous board's king lengths", () => {
+  const winners = calculateWinners(initial, initial, board([]), { turn: 10 });
+  assert.deepEqual(winnerIds(winners), ["red-king", "red-pawn"]);
+});
+
+await test("calculateWinners draws between every team when all go out together with equal kings", () => {
+  const previous = board([redKing, { ...blueKing, length: 4 }]);
+  const winners = calculateWinners(initial, previous, board([]), { turn: 10 });
+  assert.deepEqual(winnerIds(winners), ["blue-king", "blue-pawn", "red-king", "red-pawn"]);
+});
+
+await test("calculateWinners awards the top king score when the turn limit is reached", () => {
+  const winners = calculateWinners(initial, initial, initial, { turn: 50, maxTurns: 50 });
+  assert.deepEqual(winnerIds(winners), ["red-king", "red-pawn"]);
+  assert.ok(winners.every((winner) => winner.teamScore === 4));
+});
+
+await test("calculateWinners draws at the turn limit when the top king scores tie", () => {
+  const tied = board([redKing, redPawn, { ...blueKing, length: 4 }, bluePawn]);
+  const winners = calculateWinners(initial, tied, tied, { turn: 50, maxTurns: 50 });
+  assert.deepEqual(winnerIds(winners), ["blue-king", "blue-pawn", "red-king", "red-pawn"]);
+});
+
+await test("applyKingTurn eliminates a king's teammates along with it", () => {
+  const king = { ...snake("red-king", [{ x: 0, y: 0 }, { x: 1, y: 0 }]), team: "red", isKing: true };
+  const pawn = { ...snake("red-pawn", [{ x: 5, y: 5 }, { x: 6, y: 5 }]), team: "red" };
+  const rival = { ...snake("blue-king", [{ x: 8, y: 8 }, { x: 9, y: 8 }]), team: "blue", isKing: true };
+  const { board: next, eliminations } = applyKingTurn(board([king, pawn, rival]), { "red-king": "down" }, {
+    hazardDamagePerTurn: 14,
+  });
+  assert.deepEqual(eliminations, [
+    { snakeId: "red-king", cause: "out-of-bounds" },
+    { snakeId: "red-pawn", cause: "king-eliminated", by: "red-king" },
+  ]);
+  assert.deepEqual(next.snakes.map((item) => item.id), ["blue-king"]);
+});
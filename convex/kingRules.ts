@@ -0,0 +1,121 @@
+// King snek: a team ruleset layered on the standard rules. Each team has one
+// king; when the king is eliminated its teammates go with it, and a team's
+// score is its king's length.
+
+import { applyStandardTurn } from "./rules";
+import type { Elimination, RulesBoard, RulesSettings, RulesSnake } from "./rules";
+
+export type KingSnake = RulesSnake & { team?: string; isKing?: boolean };
+
+export type TeamWinner = {
+  snakeId: string;
+  team: string;
+  teamScore: number;
+};
+
+export function usesKingRules(board: { snakes: KingSnake[] }) {
+  return board.snakes.some((snake) => snake.isKing && snake.team);
+}
+
+export function getKing<TSnake extends KingSnake>(board: RulesBoard<TSnake>, team: string) {
+  return board.snakes.find((snake) => snake.team === team && snake.isKing);
+}
+
+export function applyKingTurn<TSnake extends KingSnake>(
+  board: RulesBoard<TSnake>,
+  moves: Record<string, string>,
+  settings: RulesSettings,
+): { board: RulesBoard<TSnake>; eliminations: Elimination[] } {
+  const result = applyStandardTurn(board, moves, settings);
+  const eliminations = [...result.eliminations];
+  for (const elimination of result.eliminations) {
+    const king = board.snakes.find((snake) => snake.id === elimination.snakeId);
+    if (!king?.isKing || !king.team) {
+      continue;
+    }
+    for (const teammate of result.board.snakes) {
+      if (teammate.team === king.team) {
+        eliminations.push({ snakeId: teammate.id, cause: "king-eliminated", by: king.id });
+      }
+    }
+  }
+  return {
+    board: {
+      ...result.board,
+      snakes: result.board.snakes.filter(
+        (snake) => !eliminations.some((elimination) => elimination.snakeId === snake.id),
+      ),
+    },
+    eliminations,
+  };
+}
+
+export function getAliveTeams(board: RulesBoard<KingSnake>): string[] {
+  const teams = new Set<string>();
+  for (const snake of board.snakes) {
+    if (snake.team) {
+      teams.add(snake.team);
+    }
+  }
+  return Array.from(teams);
+}
+
+// Teams are taken from the starting board so eliminated teams score zero.
+export function getTeamScores(
+  initialBoard: RulesBoard<KingSnake>,
+  board: RulesBoard<KingSnake>,
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const team of getAliveTeams(initialBoard)) {
+    scores.set(team, getKing(board, team)?.length ?? 0);
+  }
+  return scores;
+}
+
+function getTeamWinners(
+  initialBoard: RulesBoard<KingSnake>,
+  board: RulesBoard<KingSnake>,
+  teams: string[],
+): TeamWinner[] {
+  return teams.flatMap((team) => {
+    const teamScore = getKing(board, team)?.length ?? 0;
+    return initialBoard.snakes
+      .filter((snake) => snake.team === team)
+      .map((snake) => ({ snakeId: snake.id, team, teamScore }));
+  });
+}
+
+function getTopTeams(scores: Map<string, number>) {
+  const maxScore = Math.max(...scores.values());
+  return Array.from(scores.entries())
+    .filter(([, score]) => score === maxScore)
+    .map(([team]) => team);
+}
+
+// Returns an empty list while the game is still undecided. A draw lists every
+// snake on each of the tied teams.
+export function calculateWinners(
+  initialBoard: RulesBoard<KingSnake>,
+  previousBoard: RulesBoard<KingSnake>,
+  board: RulesBoard<KingSnake>,
+  options: { turn: number; maxTurns?: number },
+): TeamWinner[] {
+  const aliveTeams = getAliveTeams(board);
+  if (aliveTeams.length === 1) {
+    return getTeamWinners(initialBoard, board, aliveTeams);
+  }
+  if (aliveTeams.length === 0) {
+    // Everyone went out on the same turn, so settle it on the turn before.
+    const previousTeams = getAliveTeams(previousBoard);
+    if (previousTeams.length <= 1) {
+      return getTeamWinners(initialBoard, previousBoard, previousTeams);
+    }
+    const scores = getTeamScores(initialBoard, previousBoard);
+    return getTeamWinners(initialBoard, previousBoard, getTopTeams(scores));
+  }
+  if (options.maxTurns !== undefined && options.turn >= options.maxTurns) {
+    const scores = getTeamScores(initialBoard, board);
+    return getTeamWinners(initialBoard, board, getTopTeams(scores));
+  }
+  return [];
+}
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { applyStandardTurn, getDefaultMove } from "./rules";
+import { board, snake } from "./testFixtures";
+
+const standard = { hazardDamagePerTurn: 14 };
+const rightward = snake("you", [
+  { x: 5, y: 5 },
+  { x: 4, y: 5 },
+  { x: 3, y: 5 },
+]);
+
+await test("getDefaultMove keeps a snake heading the way it faces", () => {
+  assert.equal(getDefaultMove(rightward), "right");
+  assert.equal(getDefaultMove(snake("new", [{ x: 1, y: 1 }, { x: 1, y: 1 }])), "up");
+});
+
+await test("applyStandardTurn moves the body forward and costs one health", () => {
+  const { board: next, eliminations } = applyStandardTurn(board([rightward]), { you: "up" }, standard);
+  assert.deepEqual(eliminations, []);
+  assert.deepEqual(next.snakes[0].body, [
+    { x: 5, y: 6 },
+    { x: 5, y: 5 },
+    { x: 4, y: 5 },
+  ]);
+  assert.equal(next.snakes[0].health, 99);
+});
+
+await test("applyStandardTurn plays the default move for a missing or invalid move", () => {
+  const { board: next } = applyStandardTurn(board([rightward]), { you: "sideways" }, standard);
+  assert.deepEqual(next.snakes[0].head, { x: 6, y: 5 });
+});
+
+await test("applyStandardTurn stacks the tail and restores health when a snake eats", () => {
+  const start = board([{ ...rightward, health: 40 }], { food: [{ x: 6, y: 5 }] });
+  const { board: next } = applyStandardTurn(start, { you: "right" }, standard);
+  assert.equal(next.snakes[0].health, 100);
+  assert.equal(next.snakes[0].length, 4);
+  assert.deepEqual(next.snakes[0].body.slice(-2), [
+    { x: 4, y: 5 },
+    { x: 4, y: 5 },
+  ]);
+  assert.deepEqual(next.food, []);
+});
+
+await test("applyStandardTurn deals hazard damage once per stacked hazard", () => {
+  const start = board([rightward], { hazards: [{ x: 6, y: 5 }, { x: 6, y: 5 }] });
+  const { board: next } = applyStandardTurn(start, { you: "right" }, standard);
+  assert.equal(next.snakes[0].health, 100 - 1 - 2 * 14);
+});
+
+await test("applyStandardTurn eliminates a snake whose health runs out in a hazard", () => {
+  const start = board([{ ...rightward, health: 10 }], { hazards: [{ x: 6, y: 5 }] });
+  const { eliminations } = applyStandardTurn(start, { you: "right" }, standard);
+  assert.deepEqual(eliminations, [{ snakeId: "you", cause: "out-of-health" }]);
+});
+
+await test("applyStandardTurn eliminates a snake that leaves the board", () => {
+  const edge = snake("you", [
+    { x: 10, y: 5 },
+    { x: 9, y: 5 },
+  ]);
+  const { board: next, eliminations } = applyStandardTurn(board([edge]), { you: "right" }, standard);
+  assert.deepEqual(eliminations, [{ snakeId: "you", cause: "out-of-bounds" }]);
+  assert.deepEqual(next.snakes, []);
+});
+
+await test("applyStandardTurn wraps a snake onto the opposite edge in wrapped games", () => {
+  const edge = snake("you", [
+    { x: 10, y: 5 },
+    { x: 9, y: 5 },
+  ]);
+  const { board: next, eliminations } = applyStandardTurn(board([edge]), { you: "right" }, {
+    ...standard,
+    ruleset: "wrapped",
+  });
+  assert.deepEqual(eliminations, []);
+  assert.deepEqual(next.snakes[0].head, { x: 0, y: 5 });
+});
+
+await test("applyStandardTurn grows survivors and restores their health in constrictor games", () => {
+  const { board: next } = applyStandardTurn(board([{ ...rightward, health: 50 }]), { you: "up" }, {
+    ...standard,
+    ruleset: "constrictor",
+  });
+  assert.equal(next.snakes[0].health, 100);
+  assert.equal(next.snakes[0].length, 4);
+});
+
+await test("applyStandardTurn eliminates the shorter snake in a head-to-head and both when equal", () => {
+  const rival = snake("rival", [
+    { x: 7, y: 5 },
+    { x: 8, y: 5 },
+  ]);
+  const shorter = applyStandardTurn(board([rightward, rival]), { you: "right", rival: "left" }, standard);
+  assert.deepEqual(shorter.eliminations, [{ snakeId: "rival", cause: "head-collision", by: "you" }]);
+
+  const equal = snake("rival", [
+    { x: 7, y: 5 },
+    { x: 8, y: 5 },
+    { x: 9, y: 5 },
+  ]);
+  const both = applyStandardTurn(board([rightward, equal]), { you: "right", rival: "left" }, standard);
+  assert.deepEqual(both.eliminations.map((elimination) => elimination.snakeId).sort(), ["rival", "you"]);
+});
+
+await test("applyStandardTurn lets a snake follow another snake's tail", () => {
+  const leader = snake("leader", [
+    { x: 6, y: 6 },
+    { x: 6, y: 5 },
+  ]);
+  const { eliminations } = applyStandardTurn(board([rightward, leader]), { you: "right", leader: "up" }, standard);
+  assert.deepEqual(eliminations, []);
+});
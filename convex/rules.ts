@@ -0,0 +1,180 @@
+// A deterministic implementation of the Battlesnake standard ruleset, used to
+// replay scenario tests turn by turn. Food never spawns, so a replay only
+// depends on the starting board and the moves each snake makes. The wrapped
+// and constrictor rulesets are standard with one change each, so they are
+// handled here too.
+
+export type Coordinate = { x: number; y: number };
+
+export type RulesSnake = {
+  id: string;
+  health: number;
+  body: Coordinate[];
+  head: Coordinate;
+  length: number;
+};
+
+export type RulesBoard<TSnake extends RulesSnake = RulesSnake> = {
+  height: number;
+  width: number;
+  food: Coordinate[];
+  hazards: Coordinate[];
+  snakes: TSnake[];
+};
+
+export type RulesSettings = {
+  hazardDamagePerTurn: number;
+  // The game's ruleset name; anything other than "wrapped" or "constrictor"
+  // plays as standard.
+  ruleset?: string;
+};
+
+export type EliminationCause =
+  | "out-of-health"
+  | "out-of-bounds"
+  | "self-collision"
+  | "snake-collision"
+  | "head-collision"
+  | "king-eliminated";
+
+export type Elimination = {
+  snakeId: string;
+  cause: EliminationCause;
+  by?: string;
+};
+
+export const SNAKE_MAX_HEALTH = 100;
+export const DEFAULT_HAZARD_DAMAGE_PER_TURN = 14;
+// What the /move request used to send when a test left hazard damage unset.
+// `backfillHazardDamage` pins it on tests saved back then.
+export const LEGACY_HAZARD_DAMAGE_PER_TURN = 100;
+
+export const MOVE_OFFSETS: Record<string, Coordinate> = {
+  up: { x: 0, y: 1 },
+  down: { x: 0, y: -1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+function sameCoordinate(a: Coordinate, b: Coordinate) {
+  return a.x === b.x && a.y === b.y;
+}
+
+// Snakes that send no move (or an invalid one) keep going the way they face.
+export function getDefaultMove(snake: RulesSnake): string {
+  const [head, neck] = snake.body;
+  if (!head || !neck || sameCoordinate(head, neck)) {
+    return "up";
+  }
+  const direction = Object.entries(MOVE_OFFSETS).find(
+    ([, offset]) => head.x - neck.x === offset.x && head.y - neck.y === offset.y,
+  );
+  return direction?.[0] ?? "up";
+}
+
+function isOutOfBounds(board: RulesBoard, point: Coordinate) {
+  return point.x < 0 || point.y < 0 || point.x >= board.width || point.y >= board.height;
+}
+
+// On a wrapped board a snake leaving one edge comes back on the opposite one.
+export function stepFrom(
+  board: { width: number; height: number },
+  point: Coordinate,
+  offset: Coordinate,
+  ruleset?: string,
+): Coordinate {
+  const next = { x: point.x + offset.x, y: point.y + offset.y };
+  if (ruleset !== "wrapped") {
+    return next;
+  }
+  return {
+    x: (next.x + board.width) % board.width,
+    y: (next.y + board.height) % board.height,
+  };
+}
+
+export function applyStandardTurn<TSnake extends RulesSnake>(
+  board: RulesBoard<TSnake>,
+  moves: Record<string, string>,
+  settings: RulesSettings,
+): { board: RulesBoard<TSnake>; eliminations: Elimination[] } {
+  const moved = board.snakes.map((snake) => {
+    const move = MOVE_OFFSETS[moves[snake.id]] ? moves[snake.id] : getDefaultMove(snake);
+    const offset = MOVE_OFFSETS[move];
+    const head = stepFrom(board, snake.head, offset, settings.ruleset);
+    const body = [head, ...snake.body.slice(0, -1)];
+    return { ...snake, head, body, health: snake.health - 1 };
+  });
+
+  for (const snake of moved) {
+    // Stacked hazards repeat a coordinate, and each copy deals damage.
+    const hazardCount = board.hazards.filter((hazard) => sameCoordinate(hazard, snake.head)).length;
+    if (board.food.some((food) => sameCoordinate(food, snake.head))) {
+      snake.health = SNAKE_MAX_HEALTH;
+      snake.body = [...snake.body, snake.body[snake.body.length - 1]];
+    } else if (hazardCount > 0) {
+      snake.health = Math.max(0, snake.health - hazardCount * settings.hazardDamagePerTurn);
+    }
+    snake.length = snake.body.length;
+  }
+
+  const eliminations: Elimination[] = [];
+  for (const snake of moved) {
+    if (snake.health <= 0) {
+      eliminations.push({ snakeId: snake.id, cause: "out-of-health" });
+    } else if (isOutOfBounds(board, snake.head)) {
+      eliminations.push({ snakeId: snake.id, cause: "out-of-bounds" });
+    }
+  }
+  const inBounds = moved.filter(
+    (snake) => !eliminations.some((elimination) => elimination.snakeId === snake.id),
+  );
+  for (const snake of inBounds) {
+    if (snake.body.slice(1).some((segment) => sameCoordinate(segment, snake.head))) {
+      eliminations.push({ snakeId: snake.id, cause: "self-collision", by: snake.id });
+      continue;
+    }
+    const bodyHit = inBounds.find(
+      (other) =>
+        other.id !== snake.id &&
+        other.body.slice(1).some((segment) => sameCoordinate(segment, snake.head)),
+    );
+    if (bodyHit) {
+      eliminations.push({ snakeId: snake.id, cause: "snake-collision", by: bodyHit.id });
+      continue;
+    }
+    const headHit = inBounds.find(
+      (other) =>
+        other.id !== snake.id &&
+        sameCoordinate(other.head, snake.head) &&
+        other.length >= snake.length,
+    );
+    if (headHit) {
+      eliminations.push({ snakeId: snake.id, cause: "head-collision", by: headHit.id });
+    }
+  }
+
+  const survivors = moved.filter(
+    (snake) => !eliminations.some((elimination) => elimination.snakeId === snake.id),
+  );
+  // Constrictor snakes grow and are back to full health after every turn,
+  // once collisions have been settled.
+  if (settings.ruleset === "constrictor") {
+    for (const snake of survivors) {
+      snake.health = SNAKE_MAX_HEALTH;
+      snake.body = [...snake.body, snake.body[snake.body.length - 1]];
+      snake.length = snake.body.length;
+    }
+  }
+
+  return {
+    board: {
+      ...board,
+      food: board.food.filter(
+        (food) => !moved.some((snake) => sameCoordinate(food, snake.head)),
+      ),
+      snakes: survivors,
+    },
+    eliminations,
+  };
+}
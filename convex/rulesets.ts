@@ -0,0 +1,35 @@
+// Ruleset presets for a test's `game`, with the settings the Battlesnake
+// engine uses for each. Tests without a ruleset are run as standard.
+
+export type RulesetName = "standard" | "royale" | "constrictor" | "wrapped" | "solo" | "squad";
+
+export type RulesetSettings = {
+  foodSpawnChance?: number;
+  minimumFood?: number;
+  hazardDamagePerTurn?: number;
+  hazardMap?: string;
+};
+
+export const RULESETS: RulesetName[] = ["standard", "royale", "constrictor", "wrapped", "solo", "squad"];
+
+export const RULESET_LABELS: Record<RulesetName, string> = {
+  standard: "Standard",
+  royale: "Royale",
+  constrictor: "Constrictor",
+  wrapped: "Wrapped",
+  solo: "Solo",
+  squad: "Squad",
+};
+
+export const RULESET_PRESETS: Record<RulesetName, { map: string; settings: RulesetSettings }> = {
+  standard: { map: "standard", settings: { foodSpawnChance: 15, minimumFood: 1, hazardDamagePerTurn: 14 } },
+  royale: { map: "royale", settings: { foodSpawnChance: 15, minimumFood: 1, hazardDamagePerTurn: 14, hazardMap: "royale" } },
+  constrictor: { map: "standard", settings: { foodSpawnChance: 0, minimumFood: 0, hazardDamagePerTurn: 14 } },
+  wrapped: { map: "standard", settings: { foodSpawnChance: 15, minimumFood: 1, hazardDamagePerTurn: 14 } },
+  solo: { map: "standard", settings: { foodSpawnChance: 15, minimumFood: 1, hazardDamagePerTurn: 14 } },
+  squad: { map: "standard", settings: { foodSpawnChance: 15, minimumFood: 1, hazardDamagePerTurn: 14 } },
+};
+
+export function rulesetName(game: { ruleset?: { name?: string } } | undefined) {
+  return game?.ruleset?.name || "standard";
+}
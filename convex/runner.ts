@@ -0,0 +1,475 @@
+// The one place that talks to a bot and judges its answers. Every way of
+// running a test (the legacy runTest action, queued test runs, suites, the
+// CLI in scripts/) goes through runTestAgainstBot so they all build the same
+// requests and reach the same verdicts. Pure (fetch only), so it also runs
+// outside Convex.
+//
+// Request builders decide what is sent for a turn; result evaluators turn what
+// the bot did into a verdict. Evaluators run in order and the first one that
+// returns a verdict wins, so checks that can fail a test outright (like the
+// latency budget) go before the grading of the move itself.
+//
+// With the lifecycle option a run also calls `GET /` and `/start` before the
+// first move and `/end` after the last, all with the same game id. Like the
+// engine, a failing /start or /end is recorded but doesn't fail the test.
+
+import type { Infer } from "convex/values";
+import type { BundleTest } from "./bundleFormat";
+import { applyKingTurn, calculateWinners, getAliveTeams, getKing, usesKingRules } from "./kingRules";
+import { applyStandardTurn, DEFAULT_HAZARD_DAMAGE_PER_TURN, getDefaultMove } from "./rules";
+import type { Elimination } from "./rules";
+import { getScriptedMoves } from "./scenario";
+import type { ScenarioScript } from "./scenario";
+import { checkLatencyBudget, DEFAULT_TIMEOUT_MS, gradeResult, MAX_TIMEOUT_MS } from "./scoring";
+import type { GradedMove } from "./scoring";
+import type {
+  botInfo as botInfoValidator,
+  game as gameValidator,
+  lifecycleStep as lifecycleStepValidator,
+} from "./validators";
+
+type Board = BundleTest["board"];
+type Snake = Board["snakes"][number];
+type Game = NonNullable<Infer<typeof gameValidator>>;
+
+export type MoveRequest = {
+  game: Game & { id: string; timeout: number };
+  turn: number;
+  board: Board;
+  you: Snake;
+};
+
+export type RequestContext = { gameId: string; turn: number; board: Board; defaultTimeoutMs?: number };
+
+// Returns null when the test's snake is no longer on the board.
+export type RequestBuilder = (test: BundleTest, context: RequestContext) => MoveRequest | null;
+
+export type MoveResponse =
+  | {
+      ok: true;
+      move: string | null;
+      shout: string | null;
+      status: number;
+      raw: unknown;
+      responseTimeMs: number;
+    }
+  | {
+      ok: false;
+      error: string;
+      timedOut?: boolean;
+      status?: number;
+      rawResponse?: string;
+      responseTimeMs?: number;
+    };
+
+type BotResponse =
+  | { ok: true; status: number; data: unknown; responseTimeMs: number }
+  | Extract<MoveResponse, { ok: false }>;
+
+export type BotInfo = Infer<typeof botInfoValidator>;
+export type LifecycleStep = Infer<typeof lifecycleStepValidator>;
+
+type RunDetails = {
+  scenarioMoves?: string[];
+  survivedTurns?: number;
+  eliminationCause?: string;
+  lifecycleSteps?: LifecycleStep[];
+  botInfo?: BotInfo;
+};
+
+const BOT_INFO_FIELDS = ["apiversion", "author", "color", "head", "tail", "version"] as const;
+
+// What the bot did: its answer for a single-move test, or the first move and
+// slowest turn of a scenario along with whether the scenario goal was met.
+export type Observation = {
+  move: string | null;
+  shout: string | null;
+  status: number;
+  raw: unknown;
+  responseTimeMs: number;
+  scenarioPassed?: boolean;
+} & RunDetails;
+
+export type Verdict = ({ ok: true } & GradedMove) | { ok: false; error: string; timedOut?: boolean };
+
+export type ResultEvaluator = (test: BundleTest, observation: Observation) => Verdict | null;
+
+// A failed verdict still reports the move the bot made, so failures carry
+// whatever was observed before the test was cut short.
+export type PlayOutcome =
+  | ({
+      ok: true;
+      move: string | null;
+      shout: string | null;
+      status: number;
+      raw: unknown;
+      responseTimeMs: number;
+    } & GradedMove &
+      RunDetails)
+  | ({
+      ok: false;
+      error: string;
+      timedOut?: boolean;
+      move?: string | null;
+      shout?: string | null;
+      status?: number;
+      rawResponse?: string;
+      responseTimeMs?: number;
+    } & RunDetails);
+
+// headers and defaultTimeoutMs come from a saved bot profile. A test's own
+// game timeout still wins over the bot's default.
+export type RunnerOptions = {
+  gameId: string;
+  lifecycle?: boolean;
+  headers?: Record<string, string>;
+  defaultTimeoutMs?: number;
+  buildRequest?: RequestBuilder;
+  evaluators?: ResultEvaluator[];
+};
+
+export function moveEndpoint(url: string) {
+  const normalizedUrl = url.trim().replace(/\/+$/, "");
+  if (!normalizedUrl) {
+    return null;
+  }
+  return normalizedUrl.endsWith("/move") ? normalizedUrl : `${normalizedUrl}/move`;
+}
+
+export const standardMoveRequest: RequestBuilder = (test, { gameId, turn, board, defaultTimeoutMs }) => {
+  const you = board.snakes.find((snakeItem) => snakeItem.id === test.youId);
+  if (!you) {
+    return null;
+  }
+  return {
+    game: {
+      id: test.game?.id ?? gameId,
+      // Fields a test leaves unset fall back to the standard ruleset.
+      ruleset: {
+        name: "standard",
+        version: "1.0.0",
+        ...test.game?.ruleset,
+        settings: {
+          foodSpawnChance: 0,
+          minimumFood: 0,
+          hazardDamagePerTurn: DEFAULT_HAZARD_DAMAGE_PER_TURN,
+          hazardMap: "custom",
+          ...test.game?.ruleset?.settings,
+        },
+      },
+      map: test.game?.map ?? "custom",
+      timeout: Math.min(test.game?.timeout ?? defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS),
+    },
+    turn,
+    board,
+    you,
+  };
+};
+
+export const latencyBudgetEvaluator: ResultEvaluator = (test, observation) => {
+  const budgetError = checkLatencyBudget(test, observation.responseTimeMs);
+  return budgetError ? { ok: false, error: budgetError, timedOut: true } : null;
+};
+
+export const expectationsEvaluator: ResultEvaluator = (test, observation) => ({
+  ok: true,
+  ...gradeResult(test, { move: observation.move, passed: observation.scenarioPassed }),
+});
+
+export const DEFAULT_EVALUATORS: ResultEvaluator[] = [latencyBudgetEvaluator, expectationsEvaluator];
+
+// A GET when there is no body. The request is aborted once the timeout
+// passes, the same way the Battlesnake engine stops waiting for a reply.
+// /start and /end replies are ignored by the engine, so they may be plain text.
+async function callBot(
+  url: string,
+  body: unknown,
+  timeoutMs: number,
+  headers: Record<string, string> = {},
+  requireJson = true,
+): Promise<BotResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const fetchStart = Date.now();
+  try {
+    const response: Response = await fetch(
+      url,
+      body === undefined
+        ? { method: "GET", headers, signal: controller.signal }
+        : {
+            method: "POST",
+            headers: { ...headers, "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+            signal: controller.signal,
+          },
+    );
+    const responseText = await response.text();
+    const responseTimeMs = Date.now() - fetchStart;
+    let data: unknown = null;
+    if (responseText) {
+      try {
+        data = JSON.parse(responseText);
+      } catch {
+        if (!requireJson && response.ok) {
+          return { ok: true, status: response.status, data: responseText, responseTimeMs };
+        }
+        return {
+          ok: false,
+          error: `Non-JSON response (${response.status}).`,
+          status: response.status,
+          rawResponse: responseText.slice(0, 1000),
+          responseTimeMs,
+        };
+      }
+    }
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: `HTTP ${response.status}`,
+        status: response.status,
+        rawResponse: JSON.stringify(data).slice(0, 1000),
+        responseTimeMs,
+      };
+    }
+    return { ok: true, status: response.status, data, responseTimeMs };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return {
+        ok: false,
+        error: `Timed out after ${timeoutMs}ms.`,
+        timedOut: true,
+        responseTimeMs: Date.now() - fetchStart,
+      };
+    }
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Request failed.",
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function requestMove(
+  endpoint: string,
+  body: unknown,
+  timeoutMs: number,
+  headers?: Record<string, string>,
+): Promise<MoveResponse> {
+  const response = await callBot(endpoint, body, timeoutMs, headers);
+  if (!response.ok) {
+    return response;
+  }
+  const { data } = response;
+  const move =
+    typeof (data as { move?: unknown })?.move === "string"
+      ? (data as { move: string }).move
+      : null;
+  const shout =
+    typeof (data as { shout?: unknown })?.shout === "string"
+      ? (data as { shout: string }).shout
+      : null;
+  return { ok: true, move, shout, status: response.status, raw: data, responseTimeMs: response.responseTimeMs };
+}
+
+function parseBotInfo(data: unknown): BotInfo {
+  const info: BotInfo = {};
+  if (typeof data === "object" && data !== null) {
+    for (const field of BOT_INFO_FIELDS) {
+      const value = (data as Record<string, unknown>)[field];
+      if (typeof value === "string") {
+        info[field] = value;
+      }
+    }
+  }
+  return info;
+}
+
+function toStep(
+  step: LifecycleStep["step"],
+  response: { ok: boolean; status?: number; responseTimeMs?: number; error?: string },
+): LifecycleStep {
+  return {
+    step,
+    ok: response.ok,
+    status: response.status,
+    responseTimeMs: response.responseTimeMs,
+    error: response.error,
+  };
+}
+
+// The request to send with /end: the final board of the game.
+type Played = ({ ok: true; observation: Observation } | Extract<MoveResponse, { ok: false }>) & {
+  endRequest: MoveRequest;
+};
+
+// Replays the scenario turn by turn, asking the bot for each of its moves.
+// Boards with a king use the king snek rules. The reported latency is the
+// slowest turn.
+async function playScenario(
+  endpoint: string,
+  test: BundleTest,
+  scenario: ScenarioScript,
+  firstRequest: MoveRequest,
+  options: Required<Pick<RunnerOptions, "gameId" | "buildRequest">> &
+    Pick<RunnerOptions, "headers" | "defaultTimeoutMs">,
+): Promise<Played> {
+  const settings = {
+    hazardDamagePerTurn:
+      firstRequest.game.ruleset?.settings?.hazardDamagePerTurn ?? DEFAULT_HAZARD_DAMAGE_PER_TURN,
+    ruleset: firstRequest.game.ruleset?.name,
+  };
+  const kingRules = usesKingRules(test.board);
+  const applyTurn = kingRules ? applyKingTurn : applyStandardTurn;
+  const goal = scenario.goal ?? "survive";
+  const team = test.board.snakes.find((snakeItem) => snakeItem.id === test.youId)?.team;
+  let board = test.board;
+  let previousBoard = test.board;
+  let turnsPlayed = 0;
+  let youElimination: Elimination | undefined;
+  const moves: string[] = [];
+  let slowestMs = 0;
+  let lastResponse: Extract<MoveResponse, { ok: true }> | null = null;
+  let lastRequest = firstRequest;
+  for (let index = 0; index < scenario.turns; index++) {
+    const turn = test.turn + index;
+    const request =
+      index === 0
+        ? firstRequest
+        : options.buildRequest(test, {
+            gameId: options.gameId,
+            turn,
+            board,
+            defaultTimeoutMs: options.defaultTimeoutMs,
+          });
+    const turnMoves = getScriptedMoves(scenario, index);
+    if (request) {
+      lastRequest = request;
+      const response = await requestMove(endpoint, request, request.game.timeout, options.headers);
+      if (!response.ok) {
+        return { ...response, error: `Turn ${turn}: ${response.error}`, endRequest: request };
+      }
+      lastResponse = response;
+      slowestMs = Math.max(slowestMs, response.responseTimeMs);
+      const move = response.move ?? getDefaultMove(request.you);
+      moves.push(move);
+      turnMoves[test.youId] = move;
+    }
+    const result = applyTurn(board, turnMoves, settings);
+    previousBoard = board;
+    board = result.board;
+    turnsPlayed = index + 1;
+    youElimination ??= result.eliminations.find(
+      (eliminated) => eliminated.snakeId === test.youId,
+    );
+    if (goal === "survive" && youElimination) {
+      break;
+    }
+    if (kingRules && getAliveTeams(board).length <= 1) {
+      break;
+    }
+  }
+
+  let passed = !youElimination;
+  if (goal === "king-survives") {
+    passed = Boolean(team && getKing(board, team));
+  } else if (goal === "team-wins") {
+    const winners = calculateWinners(test.board, previousBoard, board, {
+      turn: turnsPlayed,
+      maxTurns: scenario.turns,
+    });
+    passed = winners.length > 0 && winners.every((winner) => winner.team === team);
+  }
+  return {
+    ok: true,
+    observation: {
+      move: moves[0] ?? null,
+      shout: lastResponse?.shout ?? null,
+      status: lastResponse?.status ?? 200,
+      raw: lastResponse?.raw ?? null,
+      responseTimeMs: slowestMs,
+      scenarioPassed: passed,
+      scenarioMoves: moves,
+      survivedTurns: youElimination ? moves.length - 1 : turnsPlayed,
+      eliminationCause: youElimination?.cause,
+    },
+    endRequest: { ...lastRequest, turn: test.turn + turnsPlayed, board },
+  };
+}
+
+async function playMove(
+  endpoint: string,
+  request: MoveRequest,
+  headers?: Record<string, string>,
+): Promise<Played> {
+  const response = await requestMove(endpoint, request, request.game.timeout, headers);
+  if (!response.ok) {
+    return { ...response, endRequest: request };
+  }
+  const { ok: _ok, ...observation } = response;
+  return { ok: true, observation, endRequest: request };
+}
+
+export async function runTestAgainstBot(
+  botUrl: string,
+  test: BundleTest,
+  options: RunnerOptions,
+): Promise<PlayOutcome> {
+  const endpoint = moveEndpoint(botUrl);
+  if (!endpoint) {
+    return { ok: false, error: "Bot URL is required." };
+  }
+  const buildRequest = options.buildRequest ?? standardMoveRequest;
+  const request = buildRequest(test, {
+    gameId: options.gameId,
+    turn: test.turn,
+    board: test.board,
+    defaultTimeoutMs: options.defaultTimeoutMs,
+  });
+  if (!request) {
+    return { ok: false, error: "You snake not found in test." };
+  }
+
+  const baseUrl = endpoint.slice(0, -"/move".length);
+  const timeoutMs = request.game.timeout;
+  const steps: LifecycleStep[] = [];
+  let info: BotInfo | undefined;
+  if (options.lifecycle) {
+    const infoResponse = await callBot(`${baseUrl}/`, undefined, timeoutMs, options.headers);
+    steps.push(toStep("info", infoResponse));
+    info = infoResponse.ok ? parseBotInfo(infoResponse.data) : undefined;
+    steps.push(toStep("start", await callBot(`${baseUrl}/start`, request, timeoutMs, options.headers, false)));
+  }
+
+  const played = test.scenario
+    ? await playScenario(endpoint, test, test.scenario, request, {
+        gameId: options.gameId,
+        buildRequest,
+        headers: options.headers,
+        defaultTimeoutMs: options.defaultTimeoutMs,
+      })
+    : await playMove(endpoint, request, options.headers);
+
+  if (options.lifecycle) {
+    steps.push(toStep("move", played.ok ? { ok: true, ...played.observation } : played));
+    steps.push(toStep("end", await callBot(`${baseUrl}/end`, played.endRequest, timeoutMs, options.headers, false)));
+  }
+  const lifecycle = options.lifecycle ? { lifecycleSteps: steps, botInfo: info } : {};
+  if (!played.ok) {
+    const { endRequest: _endRequest, ...failure } = played;
+    return { ...failure, ...lifecycle };
+  }
+
+  const { observation } = played;
+  const { scenarioPassed: _scenarioPassed, raw, ...observed } = observation;
+  for (const evaluate of options.evaluators ?? DEFAULT_EVALUATORS) {
+    const verdict = evaluate(test, observation);
+    if (verdict?.ok) {
+      return { ...observed, raw, ...lifecycle, ...verdict };
+    }
+    if (verdict) {
+      return { ...observed, ...lifecycle, ...verdict };
+    }
+  }
+  return { ...observed, ...lifecycle, ok: false, error: "No evaluator could grade this result." };
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { analyseMoves, checkExpectationsAgainstOracle } from "./safeMoves";
+import type { RulesBoard, RulesSnake } from "./rules";
+import { board, snake } from "./testFixtures";
+
+function oracleTest(
+  snakes: RulesSnake[],
+  extra: Partial<RulesBoard> = {},
+  game?: { ruleset?: { name?: string; settings?: { hazardDamagePerTurn?: number } } },
+) {
+  return { board: board(snakes, extra), youId: "you", game };
+}
+
+const verdicts = (value: Parameters<typeof analyseMoves>[0]) =>
+  Object.fromEntries(analyseMoves(value).map((analysis) => [analysis.move, analysis.verdict]));
+
+const cornered = snake("you", [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 2, y: 0 },
+]);
+
+await test("analyseMoves marks walls and the snake's own neck lethal", () => {
+  assert.deepEqual(verdicts(oracleTest([cornered])), {
+    up: "safe",
+    down: "lethal",
+    left: "lethal",
+    right: "lethal",
+  });
+});
+
+await test("analyseMoves lets a snake follow its own tail unless the tail is stacked", () => {
+  const curled = [
+    { x: 5, y: 5 },
+    { x: 5, y: 4 },
+    { x: 6, y: 4 },
+    { x: 6, y: 5 },
+  ];
+  assert.equal(verdicts(oracleTest([snake("you", curled)])).right, "safe");
+  assert.equal(verdicts(oracleTest([snake("you", [...curled, { x: 6, y: 5 }])])).right, "lethal");
+});
+
+await test("analyseMoves marks a head-to-head with a snake that isn't shorter lethal", () => {
+  const rival = snake("rival", [
+    { x: 0, y: 2 },
+    { x: 1, y: 2 },
+    { x: 2, y: 2 },
+  ]);
+  assert.equal(verdicts(oracleTest([cornered, rival])).up, "lethal");
+  const shorter = snake("rival", [
+    { x: 0, y: 2 },
+    { x: 1, y: 2 },
+  ]);
+  assert.equal(verdicts(oracleTest([cornered, shorter])).up, "safe");
+});
+
+await test("analyseMoves adds up damage from stacked hazards", () => {
+  const weak = snake("you", cornered.body, 20);
+  const single = oracleTest([weak], { hazards: [{ x: 0, y: 1 }] });
+  assert.equal(verdicts(single).up, "safe");
+  const doubled = oracleTest([weak], { hazards: [{ x: 0, y: 1 }, { x: 0, y: 1 }] });
+  assert.equal(verdicts(doubled).up, "lethal");
+  const gentle = oracleTest([weak], { hazards: [{ x: 0, y: 1 }, { x: 0, y: 1 }] }, {
+    ruleset: { settings: { hazardDamagePerTurn: 5 } },
+  });
+  assert.equal(verdicts(gentle).up, "safe");
+});
+
+// A 3x2 board where moving up leaves three free cells for a length 4 snake,
+// plus the cell its body frees on the way.
+const pocket = snake("you", [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 2, y: 0 },
+  { x: 2, y: 1 },
+]);
+
+await test("analyseMoves counts cells the body vacates when looking for room", () => {
+  assert.equal(verdicts(oracleTest([pocket], { width: 3, height: 2 })).up, "safe");
+});
+
+await test("analyseMoves never frees body cells in constrictor games", () => {
+  const constrictor = oracleTest([pocket], { width: 3, height: 2 }, { ruleset: { name: "constrictor" } });
+  assert.equal(verdicts(constrictor).up, "dead-end");
+});
+
+await test("analyseMoves reports a pocket smaller than the snake as a dead end", () => {
+  const row = snake("you", [
+    { x: 2, y: 0 },
+    { x: 3, y: 0 },
+    { x: 4, y: 0 },
+  ]);
+  assert.equal(verdicts(oracleTest([row], { width: 5, height: 1 })).left, "dead-end");
+});
+
+await test("analyseMoves wraps moves off the edge in wrapped games", () => {
+  const wrapped = oracleTest([cornered], {}, { ruleset: { name: "wrapped" } });
+  assert.equal(verdicts(wrapped).left, "safe");
+  assert.equal(verdicts(wrapped).down, "safe");
+});
+
+await test("checkExpectationsAgainstOracle warns about expected moves the oracle rules out", () => {
+  const warnings = checkExpectationsAgainstOracle({ ...oracleTest([cornered]), expectedSafeMoves: ["up", "left"] });
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /"left".*lethal/);
+  const scenario = { ...oracleTest([cornered]), expectedSafeMoves: ["left"], scenario: { turns: 3 } };
+  assert.deepEqual(checkExpectationsAgainstOracle(scenario), []);
+});
@@ -0,0 +1,156 @@
+// A local oracle for the first move of a test: which directions kill our
+// snake outright and which lead into a region too small to ever fit it. The
+// editor offers the rest as suggested expected safe moves, and admins are
+// warned when a submitted test expects a move the oracle rules out.
+
+import { DEFAULT_HAZARD_DAMAGE_PER_TURN, MOVE_OFFSETS, stepFrom } from "./rules";
+import type { Coordinate, RulesBoard, RulesSnake } from "./rules";
+
+export type MoveVerdict = "lethal" | "dead-end" | "safe";
+
+export type MoveAnalysis = {
+  move: string;
+  verdict: MoveVerdict;
+  reason?: string;
+};
+
+type OracleTest = {
+  board: RulesBoard<RulesSnake & { name?: string }>;
+  youId: string;
+  game?: { ruleset?: { name?: string; settings?: { hazardDamagePerTurn?: number } } };
+};
+
+const key = (point: Coordinate) => `${point.x},${point.y}`;
+
+// Turns until each occupied cell is free, assuming no snake grows. Stacked
+// segments keep a cell for as long as their last copy. Constrictor snakes grow
+// every turn, so their cells are never freed.
+function vacateTimes(snakes: { body: Coordinate[] }[], ruleset?: string) {
+  const times = new Map<string, number>();
+  for (const snake of snakes) {
+    snake.body.forEach((segment, index) => {
+      const cell = key(segment);
+      const time = ruleset === "constrictor" ? Infinity : snake.body.length - index;
+      times.set(cell, Math.max(times.get(cell) ?? 0, time));
+    });
+  }
+  return times;
+}
+
+// Breadth-first search where a body cell becomes passable once the segment
+// on it has moved on. This is the most room the snake could possibly get, so
+// running out of it is a dead end whatever the other snakes do.
+function reachableSpace(
+  board: RulesBoard,
+  start: Coordinate,
+  occupied: Map<string, number>,
+  needed: number,
+  ruleset?: string,
+) {
+  const seen = new Set([key(start)]);
+  let frontier = [start];
+  for (let step = 1; frontier.length > 0 && seen.size < needed; step++) {
+    const next: Coordinate[] = [];
+    for (const point of frontier) {
+      for (const offset of Object.values(MOVE_OFFSETS)) {
+        const neighbour = stepFrom(board, point, offset, ruleset);
+        const cell = key(neighbour);
+        if (
+          neighbour.x < 0 ||
+          neighbour.y < 0 ||
+          neighbour.x >= board.width ||
+          neighbour.y >= board.height ||
+          seen.has(cell) ||
+          (occupied.get(cell) ?? 0) > step
+        ) {
+          continue;
+        }
+        seen.add(cell);
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+  return seen.size;
+}
+
+export function analyseMoves(test: OracleTest): MoveAnalysis[] {
+  const { board } = test;
+  const you = board.snakes.find((snake) => snake.id === test.youId);
+  if (!you || you.body.length === 0) {
+    return [];
+  }
+  const opponents = board.snakes.filter((snake) => snake.id !== you.id && snake.body.length > 0);
+  const ruleset = test.game?.ruleset?.name;
+  const hazardDamage = test.game?.ruleset?.settings?.hazardDamagePerTurn ?? DEFAULT_HAZARD_DAMAGE_PER_TURN;
+  const isFood = (point: Coordinate) => board.food.some((food) => food.x === point.x && food.y === point.y);
+  const hazardCount = (point: Coordinate) =>
+    board.hazards.filter((hazard) => hazard.x === point.x && hazard.y === point.y).length;
+  const canReach = (from: Coordinate, to: Coordinate) =>
+    Object.values(MOVE_OFFSETS).some((offset) => {
+      const next = stepFrom(board, from, offset, ruleset);
+      return next.x === to.x && next.y === to.y;
+    });
+
+  return Object.entries(MOVE_OFFSETS).map(([move, offset]): MoveAnalysis => {
+    const head = stepFrom(board, you.head, offset, ruleset);
+    if (head.x < 0 || head.y < 0 || head.x >= board.width || head.y >= board.height) {
+      return { move, verdict: "lethal", reason: "Moves off the board." };
+    }
+    // As in `applyStandardTurn`, the tail moves before a snake grows, so the
+    // old tail cell is only still taken when the tail was already stacked.
+    const eats = isFood(head);
+    const moved = [head, ...you.body.slice(0, -1)];
+    const body = eats ? [...moved, moved[moved.length - 1]] : moved;
+    if (body.slice(1).some((segment) => segment.x === head.x && segment.y === head.y)) {
+      return { move, verdict: "lethal", reason: "Runs into its own body." };
+    }
+    const movedOpponents = opponents.map((snake) => ({ ...snake, body: snake.body.slice(0, -1) }));
+    const bodyHit = movedOpponents.find((snake) =>
+      snake.body.some((segment) => segment.x === head.x && segment.y === head.y),
+    );
+    if (bodyHit) {
+      return { move, verdict: "lethal", reason: `Runs into ${bodyHit.name || bodyHit.id}'s body.` };
+    }
+    const headRival = opponents.find((snake) => snake.length >= body.length && canReach(snake.head, head));
+    if (headRival) {
+      return { move, verdict: "lethal", reason: `${headRival.name || headRival.id} can meet it head-on and is not shorter.` };
+    }
+    if (!eats && you.health - 1 <= 0) {
+      return { move, verdict: "lethal", reason: "Starves without food." };
+    }
+    const stacked = eats ? 0 : hazardCount(head);
+    if (stacked > 0 && you.health - 1 - stacked * hazardDamage <= 0) {
+      return {
+        move,
+        verdict: "lethal",
+        reason: stacked > 1 ? `Damage from ${stacked} stacked hazards would finish it off.` : "Hazard damage would finish it off.",
+      };
+    }
+
+    const occupied = vacateTimes([{ body }, ...movedOpponents], ruleset);
+    occupied.delete(key(head));
+    const space = reachableSpace(board, head, occupied, body.length, ruleset);
+    if (space < body.length) {
+      return {
+        move,
+        verdict: "dead-end",
+        reason: `Leads into ${space} reachable cell${space === 1 ? "" : "s"}, fewer than its length ${body.length}.`,
+      };
+    }
+    return { move, verdict: "safe" };
+  });
+}
+
+// Warnings for expected moves the oracle says lose the game. Scenario tests
+// are graded on survival, so their expected moves are not checked.
+export function checkExpectationsAgainstOracle(
+  test: OracleTest & { expectedSafeMoves: string[]; scenario?: unknown },
+): string[] {
+  if (test.scenario) {
+    return [];
+  }
+  return analyseMoves(test)
+    .filter((analysis) => analysis.verdict !== "safe" && test.expectedSafeMoves.includes(analysis.move))
+    .map((analysis) => `Expects "${analysis.move}", which the oracle marks ${analysis.verdict}: ${analysis.reason}`);
+}
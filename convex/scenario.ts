@@ -0,0 +1,76 @@
+// Scenario tests replay several turns from the stored board: the bot picks its
+// own moves while opponents follow the moves scripted on the test.
+
+// "survive" needs our snake alive at the end. The king goals apply to
+// king/team boards: our team's king must survive, or our team must be the
+// only winner once the game ends or the turns run out.
+export type ScenarioGoal = "survive" | "king-survives" | "team-wins";
+
+export type ScenarioScript = {
+  turns: number;
+  opponentMoves: { snakeId: string; moves: string[] }[];
+  goal?: ScenarioGoal;
+};
+
+export const MAX_SCENARIO_TURNS = 50;
+
+const VALID_MOVES = ["up", "down", "left", "right"];
+
+export function validateScenario(test: {
+  board: { snakes: { id: string; team?: string; isKing?: boolean }[] };
+  youId: string;
+  scenario?: ScenarioScript;
+}): string | null {
+  const { scenario } = test;
+  if (!scenario) {
+    return null;
+  }
+  if (!Number.isInteger(scenario.turns) || scenario.turns < 1 || scenario.turns > MAX_SCENARIO_TURNS) {
+    return `Scenario turns must be between 1 and ${MAX_SCENARIO_TURNS}.`;
+  }
+  if (scenario.goal === "king-survives" || scenario.goal === "team-wins") {
+    const you = test.board.snakes.find((snake) => snake.id === test.youId);
+    if (!you?.team) {
+      return "King and team goals need your snake to be on a team.";
+    }
+    if (!test.board.snakes.some((snake) => snake.team === you.team && snake.isKing)) {
+      return "Your team needs a king for king and team goals.";
+    }
+  }
+  for (const script of scenario.opponentMoves) {
+    if (script.snakeId === test.youId) {
+      return "Your own snake cannot have scripted moves.";
+    }
+    if (!test.board.snakes.some((snake) => snake.id === script.snakeId)) {
+      return `Scripted moves reference unknown snake "${script.snakeId}".`;
+    }
+    const invalid = script.moves.find((move) => !VALID_MOVES.includes(move));
+    if (invalid) {
+      return `Invalid scripted move "${invalid}" for ${script.snakeId}.`;
+    }
+  }
+  return null;
+}
+
+// Opponents without a script for this turn fall back to the rules default.
+export function getScriptedMoves(scenario: ScenarioScript, turnIndex: number) {
+  const moves: Record<string, string> = {};
+  for (const script of scenario.opponentMoves) {
+    const move = script.moves[turnIndex];
+    if (move) {
+      moves[script.snakeId] = move;
+    }
+  }
+  return moves;
+}
+
+export const SCENARIO_GOAL_LABELS: Record<ScenarioGoal, string> = {
+  survive: "Survive",
+  "king-survives": "King survives",
+  "team-wins": "Team wins within",
+};
+
+export function describeScenario(scenario: ScenarioScript): string {
+  const label = SCENARIO_GOAL_LABELS[scenario.goal ?? "survive"];
+  return `${label} ${scenario.turns} turn${scenario.turns === 1 ? "" : "s"}`;
+}
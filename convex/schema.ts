@@ -1,51 +1,16 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
-
-const coordinate = v.object({ x: v.number(), y: v.number() });
-const snake = v.object({
-  id: v.string(),
-  name: v.string(),
-  health: v.number(),
-  body: v.array(coordinate),
-  head: coordinate,
-  length: v.number(),
-  latency: v.optional(v.string()),
-  shout: v.optional(v.string()),
-  team: v.optional(v.string()),
-  squad: v.optional(v.string()),
-  isKing: v.optional(v.boolean()),
-  headEmoji: v.optional(v.string()),
-  color: v.optional(v.string()),
-});
-const board = v.object({
-  height: v.number(),
-  width: v.number(),
-  food: v.array(coordinate),
-  hazards: v.array(coordinate),
-  snakes: v.array(snake),
-});
-const ruleset = v.optional(
-  v.object({
-    name: v.optional(v.string()),
-    version: v.optional(v.string()),
-    settings: v.optional(
-      v.object({
-        foodSpawnChance: v.optional(v.number()),
-        minimumFood: v.optional(v.number()),
-        hazardDamagePerTurn: v.optional(v.number()),
-        hazardMap: v.optional(v.string()),
-      }),
-    ),
-  }),
-);
-const game = v.optional(
-  v.object({
-    id: v.optional(v.string()),
-    ruleset,
-    map: v.optional(v.string()),
-    timeout: v.optional(v.number()),
-  }),
-);
+import {
+  board,
+  boardTransform,
+  botHeader,
+  botInfo,
+  game,
+  lifecycleStep,
+  moveGrade,
+  repeatSummary,
+  scenario,
+} from "./validators";
 
 export default defineSchema({
   users: defineTable({
@@ -96,6 +61,10 @@ export default defineSchema({
     turn: v.number(),
     youId: v.string(),
     expectedSafeMoves: v.array(v.string()),
+    preferredMove: v.optional(v.string()),
+    forbiddenMoves: v.optional(v.array(v.string())),
+    scenario,
+    latencyBudgetMs: v.optional(v.number()),
     createdAt: v.number(),
     ownerId: v.optional(v.id("users")),
     status: v.optional(v.union(v.literal("approved"), v.literal("pending"), v.literal("rejected"), v.literal("private"))),
@@ -103,10 +72,15 @@ export default defineSchema({
     approvedAt: v.optional(v.number()),
     rejectionReason: v.optional(v.string()),
     permaRejected: v.optional(v.boolean()),
+    parentTestId: v.optional(v.id("tests")),
+    symmetry: v.optional(boardTransform),
+    boardHash: v.optional(v.string()),
   })
     .index("by_createdAt", ["createdAt"])
     .index("by_ownerId", ["ownerId"])
-    .index("by_status", ["status"]),
+    .index("by_status", ["status"])
+    .index("by_parentTestId", ["parentTestId"])
+    .index("by_boardHash", ["boardHash"]),
 
   collections: defineTable({
     name: v.string(),
@@ -128,6 +102,29 @@ export default defineSchema({
     .index("by_collectionId", ["collectionId"])
     .index("by_testId", ["testId"]),
 
+  apiKeys: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    keyHash: v.string(),
+    prefix: v.string(),
+    createdAt: v.number(),
+    lastUsedAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_keyHash", ["keyHash"]),
+
+  bots: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    baseUrl: v.string(),
+    headers: v.optional(v.array(botHeader)),
+    timeoutMs: v.optional(v.number()),
+    notes: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_userId", ["userId"]),
+
   adminSessions: defineTable({
     token: v.string(),
     createdAt: v.number(),
@@ -145,18 +142,59 @@ export default defineSchema({
     testId: v.id("tests"),
     userId: v.id("users"),
     botUrl: v.string(),
-    status: v.union(v.literal("running"), v.literal("completed"), v.literal("failed")),
+    botId: v.optional(v.id("bots")),
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed"),
+      v.literal("timeout"),
+    ),
     move: v.optional(v.string()),
     shout: v.optional(v.string()),
     passed: v.optional(v.boolean()),
+    grade: v.optional(moveGrade),
+    score: v.optional(v.number()),
     error: v.optional(v.string()),
     httpStatus: v.optional(v.number()),
     rawResponse: v.optional(v.string()),
     responseTimeMs: v.optional(v.number()),
+    scenarioMoves: v.optional(v.array(v.string())),
+    survivedTurns: v.optional(v.number()),
+    eliminationCause: v.optional(v.string()),
+    lifecycle: v.optional(v.boolean()),
+    lifecycleSteps: v.optional(v.array(lifecycleStep)),
+    botInfo: v.optional(botInfo),
+    repeat: v.optional(v.number()),
+    repeatSummary: v.optional(repeatSummary),
     startedAt: v.number(),
     completedAt: v.optional(v.number()),
+    suiteRunId: v.optional(v.id("suiteRuns")),
   })
     .index("by_userId", ["userId"])
     .index("by_testId", ["testId"])
-    .index("by_status", ["status"]),
+    .index("by_status", ["status"])
+    .index("by_suiteRunId", ["suiteRunId"])
+    .index("by_userId_botUrl_testId", ["userId", "botUrl", "testId"])
+    .index("by_userId_botId_testId", ["userId", "botId", "testId"]),
+
+  suiteRuns: defineTable({
+    userId: v.id("users"),
+    botUrl: v.string(),
+    botId: v.optional(v.id("bots")),
+    collectionId: v.optional(v.id("collections")),
+    status: v.union(v.literal("running"), v.literal("completed")),
+    totalTests: v.number(),
+    completedCount: v.number(),
+    passCount: v.number(),
+    failCount: v.number(),
+    errorCount: v.number(),
+    timeoutCount: v.optional(v.number()),
+    p50LatencyMs: v.optional(v.number()),
+    p95LatencyMs: v.optional(v.number()),
+    startedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_botUrl", ["userId", "botUrl"])
+    .index("by_userId_botId", ["userId", "botId"]),
 });
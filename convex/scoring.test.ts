@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  checkLatencyBudget,
+  compareScores,
+  gradeMove,
+  gradeResult,
+  isFlaky,
+  MAX_TIMEOUT_MS,
+  percentile,
+  summarizeGrades,
+  summarizeRepeats,
+  validateExpectations,
+  validateRepeat,
+} from "./scoring";
+
+const expectations = { expectedSafeMoves: ["up", "left"], preferredMove: "up", forbiddenMoves: ["down"] };
+
+await test("gradeMove grades preferred, acceptable, unexpected and forbidden moves", () => {
+  assert.deepEqual(gradeMove(expectations, "up"), { grade: "preferred", passed: true, score: 1 });
+  assert.deepEqual(gradeMove(expectations, "left"), { grade: "acceptable", passed: true, score: 0.5 });
+  assert.deepEqual(gradeMove(expectations, "right"), { grade: "unexpected", passed: false, score: 0 });
+  assert.deepEqual(gradeMove(expectations, "down"), { grade: "forbidden", passed: false, score: 0 });
+  assert.deepEqual(gradeMove(expectations, null), { grade: "unexpected", passed: false, score: 0 });
+});
+
+await test("gradeMove gives full credit for every expected move when none is preferred", () => {
+  assert.equal(gradeMove({ expectedSafeMoves: ["up", "left"] }, "left").score, 1);
+});
+
+await test("gradeResult grades scenario tests on survival", () => {
+  const scenarioTest = { ...expectations, scenario: { turns: 3, opponentMoves: [] } };
+  assert.equal(gradeResult(scenarioTest, { move: "down", passed: true }).grade, "preferred");
+  assert.equal(gradeResult(scenarioTest, { move: "up", passed: false }).grade, "unexpected");
+});
+
+await test("summarizeGrades totals passes, forbidden moves and score", () => {
+  const grades = ["up", "left", "down", "right"].map((move) => gradeMove(expectations, move));
+  assert.deepEqual(summarizeGrades(grades), { passed: 2, forbidden: 1, score: 1.5 });
+});
+
+await test("validateExpectations rejects contradictory expectations", () => {
+  assert.equal(validateExpectations(expectations), null);
+  assert.equal(
+    validateExpectations({ expectedSafeMoves: ["up"], preferredMove: "left" }),
+    "Preferred move must be one of the expected safe moves.",
+  );
+  assert.equal(
+    validateExpectations({ expectedSafeMoves: ["up"], forbiddenMoves: ["up"] }),
+    `Move "up" cannot be both expected and forbidden.`,
+  );
+});
+
+await test("validateExpectations keeps latency budgets within the game timeout", () => {
+  assert.equal(
+    validateExpectations({ expectedSafeMoves: ["up"], latencyBudgetMs: 0 }),
+    "Latency budget must be a positive number of milliseconds.",
+  );
+  assert.equal(
+    validateExpectations({ expectedSafeMoves: ["up"], latencyBudgetMs: 600 }),
+    "Latency budget cannot be longer than the game timeout.",
+  );
+  assert.equal(validateExpectations({ expectedSafeMoves: ["up"], latencyBudgetMs: 600, game: { timeout: 800 } }), null);
+});
+
+await test("validateExpectations caps the game timeout", () => {
+  assert.equal(validateExpectations({ expectedSafeMoves: ["up"], game: { timeout: MAX_TIMEOUT_MS } }), null);
+  assert.notEqual(validateExpectations({ expectedSafeMoves: ["up"], game: { timeout: MAX_TIMEOUT_MS + 1 } }), null);
+  assert.notEqual(validateExpectations({ expectedSafeMoves: ["up"], game: { timeout: 0 } }), null);
+});
+
+await test("checkLatencyBudget only fails responses slower than the budget", () => {
+  assert.equal(checkLatencyBudget({ latencyBudgetMs: 100 }, 100), null);
+  assert.equal(checkLatencyBudget({ latencyBudgetMs: 100 }, 101), "Responded in 101ms, over the 100ms latency budget.");
+  assert.equal(checkLatencyBudget({}, 10_000), null);
+});
+
+await test("percentile picks the nearest-rank value", () => {
+  assert.equal(percentile([], 0.5), undefined);
+  assert.equal(percentile([10, 20, 30, 40], 0.5), 20);
+  assert.equal(percentile([10, 20, 30, 40], 0.95), 40);
+});
+
+await test("compareScores compares two bots by score", () => {
+  assert.equal(compareScores(1, 0.5), "regressed");
+  assert.equal(compareScores(0.5, 1), "improved");
+  assert.equal(compareScores(1, 1), "unchanged");
+});
+
+await test("summarizeRepeats counts moves and scores flakiness", () => {
+  const summary = summarizeRepeats([
+    { move: "up", passed: true },
+    { move: "left", passed: false },
+    { move: "up", passed: true },
+    { move: null, passed: false },
+  ]);
+  assert.equal(summary.runs, 4);
+  assert.equal(summary.passes, 2);
+  assert.equal(summary.flakiness, 1);
+  assert.deepEqual(summary.moves[0], { move: "up", count: 2 });
+  assert.equal(summarizeRepeats([{ move: "up", passed: true }, { move: "up", passed: true }]).flakiness, 0);
+  assert.equal(summarizeRepeats([]).flakiness, 0);
+});
+
+await test("isFlaky only flags runs that both passed and failed", () => {
+  assert.equal(isFlaky({ runs: 5, passes: 3 }), true);
+  assert.equal(isFlaky({ runs: 5, passes: 5 }), false);
+  assert.equal(isFlaky({ runs: 5, passes: 0 }), false);
+  assert.equal(isFlaky(undefined), false);
+});
+
+await test("validateRepeat accepts whole numbers from 1 to the maximum", () => {
+  assert.equal(validateRepeat(undefined), null);
+  assert.equal(validateRepeat(20), null);
+  assert.notEqual(validateRepeat(0), null);
+  assert.notEqual(validateRepeat(21), null);
+  assert.notEqual(validateRepeat(2.5), null);
+});
@@ -0,0 +1,188 @@
+// Grading rules for a bot's move against a test's expectations. Shared by the
+// Convex runner and the React pages so pass counts always agree.
+
+import { describeScenario } from "./scenario";
+import type { ScenarioScript } from "./scenario";
+
+export type MoveGrade = "preferred" | "acceptable" | "unexpected" | "forbidden";
+
+export type MoveExpectations = {
+  expectedSafeMoves: string[];
+  preferredMove?: string;
+  forbiddenMoves?: string[];
+};
+
+export type TestExpectations = MoveExpectations & { scenario?: ScenarioScript };
+
+export type GradedMove = {
+  grade: MoveGrade;
+  passed: boolean;
+  score: number;
+};
+
+export const ACCEPTABLE_MOVE_SCORE = 0.5;
+
+export const MOVE_GRADE_LABELS: Record<MoveGrade, string> = {
+  preferred: "PASS",
+  acceptable: "PARTIAL",
+  unexpected: "FAIL",
+  forbidden: "HARD FAIL",
+};
+
+// Tests without a preferred move treat every expected safe move as full credit.
+export function gradeMove(
+  test: MoveExpectations,
+  move: string | null | undefined,
+): GradedMove {
+  if (move && test.forbiddenMoves?.includes(move)) {
+    return { grade: "forbidden", passed: false, score: 0 };
+  }
+  if (!move || !test.expectedSafeMoves.includes(move)) {
+    return { grade: "unexpected", passed: false, score: 0 };
+  }
+  if (test.preferredMove && test.preferredMove !== move) {
+    return { grade: "acceptable", passed: true, score: ACCEPTABLE_MOVE_SCORE };
+  }
+  return { grade: "preferred", passed: true, score: 1 };
+}
+
+// Scenario tests are graded on survival by the runner rather than on a move.
+export function gradeResult(
+  test: TestExpectations,
+  result: { move?: string | null; passed?: boolean },
+): GradedMove {
+  if (test.scenario) {
+    return result.passed
+      ? { grade: "preferred", passed: true, score: 1 }
+      : { grade: "unexpected", passed: false, score: 0 };
+  }
+  return gradeMove(test, result.move);
+}
+
+export function summarizeGrades(grades: GradedMove[]) {
+  return {
+    passed: grades.filter((graded) => graded.passed).length,
+    forbidden: grades.filter((graded) => graded.grade === "forbidden").length,
+    score: grades.reduce((total, graded) => total + graded.score, 0),
+  };
+}
+
+export type Comparison = "regressed" | "improved" | "unchanged";
+
+// Compares two bots on the same test by score, so a drop from a preferred to
+// an acceptable move counts as a regression. Errors score zero.
+export function compareScores(baselineScore: number, candidateScore: number): Comparison {
+  if (candidateScore < baselineScore) {
+    return "regressed";
+  }
+  if (candidateScore > baselineScore) {
+    return "improved";
+  }
+  return "unchanged";
+}
+
+export const DEFAULT_TIMEOUT_MS = 500;
+// Every turn of every repeat can wait this long, so it is kept well under what
+// a suite batch can afford.
+export const MAX_TIMEOUT_MS = 5000;
+export const MAX_REPEAT = 20;
+
+export function validateRepeat(repeat: number | undefined): string | null {
+  if (repeat !== undefined && (!Number.isInteger(repeat) || repeat < 1 || repeat > MAX_REPEAT)) {
+    return `Repeat count must be a whole number from 1 to ${MAX_REPEAT}.`;
+  }
+  return null;
+}
+
+export type RepeatSummary = {
+  runs: number;
+  passes: number;
+  moves: { move: string | null; count: number }[];
+  flakiness: number;
+};
+
+// Flakiness is 0 when every repeat agrees on pass or fail and 1 when they
+// split evenly. Moves are listed most common first.
+export function summarizeRepeats(
+  results: { move?: string | null; passed: boolean }[],
+): RepeatSummary {
+  const counts = new Map<string | null, number>();
+  for (const result of results) {
+    const move = result.move ?? null;
+    counts.set(move, (counts.get(move) ?? 0) + 1);
+  }
+  const runs = results.length;
+  const passes = results.filter((result) => result.passed).length;
+  return {
+    runs,
+    passes,
+    moves: Array.from(counts, ([move, count]) => ({ move, count })).sort((a, b) => b.count - a.count),
+    flakiness: runs === 0 ? 0 : 1 - Math.abs(2 * passes - runs) / runs,
+  };
+}
+
+export function isFlaky(summary: { runs: number; passes: number } | undefined) {
+  return summary !== undefined && summary.passes > 0 && summary.passes < summary.runs;
+}
+
+export function validateExpectations(
+  test: MoveExpectations & { latencyBudgetMs?: number; game?: { timeout?: number } },
+): string | null {
+  const timeout = test.game?.timeout;
+  if (timeout !== undefined && (!Number.isInteger(timeout) || timeout <= 0 || timeout > MAX_TIMEOUT_MS)) {
+    return `Game timeout must be a whole number of milliseconds up to ${MAX_TIMEOUT_MS}.`;
+  }
+  if (test.latencyBudgetMs !== undefined) {
+    if (!Number.isInteger(test.latencyBudgetMs) || test.latencyBudgetMs <= 0) {
+      return "Latency budget must be a positive number of milliseconds.";
+    }
+    if (test.latencyBudgetMs > (test.game?.timeout ?? DEFAULT_TIMEOUT_MS)) {
+      return "Latency budget cannot be longer than the game timeout.";
+    }
+  }
+  if (test.preferredMove && !test.expectedSafeMoves.includes(test.preferredMove)) {
+    return "Preferred move must be one of the expected safe moves.";
+  }
+  const overlap = test.forbiddenMoves?.find((move) =>
+    test.expectedSafeMoves.includes(move),
+  );
+  if (overlap) {
+    return `Move "${overlap}" cannot be both expected and forbidden.`;
+  }
+  return null;
+}
+
+// A latency budget is stricter than the game timeout: the bot answered in time
+// for the engine but too slowly for this test.
+export function checkLatencyBudget(
+  test: { latencyBudgetMs?: number },
+  responseTimeMs: number,
+): string | null {
+  if (test.latencyBudgetMs !== undefined && responseTimeMs > test.latencyBudgetMs) {
+    return `Responded in ${responseTimeMs}ms, over the ${test.latencyBudgetMs}ms latency budget.`;
+  }
+  return null;
+}
+
+export function describeExpectations(test: TestExpectations): string {
+  if (test.scenario) {
+    return describeScenario(test.scenario);
+  }
+  const parts = [test.expectedSafeMoves.join(", ")];
+  if (test.preferredMove) {
+    parts.push(`Preferred: ${test.preferredMove}`);
+  }
+  if (test.forbiddenMoves?.length) {
+    parts.push(`Forbidden: ${test.forbiddenMoves.join(", ")}`);
+  }
+  return parts.join(" | ");
+}
+
+// Nearest-rank percentile of an ascending list, used for suite latencies.
+export function percentile(sortedValues: number[], fraction: number) {
+  if (sortedValues.length === 0) {
+    return undefined;
+  }
+  const rank = Math.ceil(fraction * sortedValues.length) - 1;
+  return sortedValues[Math.min(Math.max(rank, 0), sortedValues.length - 1)];
+}
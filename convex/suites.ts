@@ -0,0 +1,329 @@
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { ActionCtx, MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireUserSession } from "./auth";
+import { performTestRun } from "./battlesnake";
+import { requireOwnedBot } from "./bots";
+import { percentile, validateRepeat } from "./scoring";
+
+const SUITE_CONCURRENCY = 4;
+
+async function createSuiteRun(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  args: {
+    botUrl: string;
+    botId?: Id<"bots">;
+    lifecycle?: boolean;
+    repeat?: number;
+    collectionId?: Id<"collections">;
+    testIds?: Id<"tests">[];
+  },
+) {
+  const repeatError = validateRepeat(args.repeat);
+  if (repeatError) {
+    throw new Error(repeatError);
+  }
+  const bot = args.botId ? await requireOwnedBot(ctx, userId, args.botId) : null;
+  const botUrl = bot?.baseUrl ?? args.botUrl;
+  if (!botUrl.trim()) {
+    throw new Error("Bot URL is required.");
+  }
+
+  let testIds: Id<"tests">[];
+  if (args.collectionId) {
+    const collection = await ctx.db.get("collections", args.collectionId);
+    if (!collection) {
+      throw new Error("Collection not found.");
+    }
+    if (collection.ownerId !== userId && !collection.isPublic) {
+      throw new Error("You don't have permission to run this collection.");
+    }
+    const collectionTests = await ctx.db
+      .query("collectionTests")
+      .withIndex("by_collectionId", (q) => q.eq("collectionId", collection._id))
+      .collect();
+    testIds = collectionTests.map((ct) => ct.testId);
+  } else if (args.testIds) {
+    testIds = args.testIds;
+  } else {
+    throw new Error("Choose a collection or a set of tests to run.");
+  }
+
+  const tests: Doc<"tests">[] = [];
+  for (const testId of testIds) {
+    const test = await ctx.db.get("tests", testId);
+    if (!test) {
+      continue;
+    }
+    // A collection already vetted its tests when they were added; hand-picked
+    // ids are checked here.
+    if (!args.collectionId && test.ownerId !== userId && test.status !== "approved") {
+      throw new Error("You can only run your own tests or public tests.");
+    }
+    tests.push(test);
+  }
+  if (tests.length === 0) {
+    throw new Error("There are no tests to run.");
+  }
+
+  const now = Date.now();
+  const suiteRunId = await ctx.db.insert("suiteRuns", {
+    userId,
+    botId: bot?._id,
+    botUrl,
+    collectionId: args.collectionId,
+    status: "running",
+    totalTests: tests.length,
+    completedCount: 0,
+    passCount: 0,
+    failCount: 0,
+    errorCount: 0,
+    startedAt: now,
+  });
+  for (const test of tests) {
+    await ctx.db.insert("testRuns", {
+      testId: test._id,
+      userId,
+      botId: bot?._id,
+      botUrl,
+      lifecycle: args.lifecycle,
+      repeat: args.repeat,
+      status: "running",
+      startedAt: now,
+      suiteRunId,
+    });
+  }
+  return suiteRunId;
+}
+
+// Each action runs at most this many tests before scheduling itself for the
+// rest, so a long suite never has to fit inside one action's time limit.
+const SUITE_BATCH_SIZE = SUITE_CONCURRENCY;
+
+// A test that throws is recorded as failed so the rest of the suite still
+// runs and the aggregate row can still complete.
+async function runSuiteTest(ctx: ActionCtx, runId: Id<"testRuns">) {
+  try {
+    await performTestRun(ctx, runId);
+  } catch (error) {
+    await ctx.runMutation(internal.battlesnake.updateTestRunResult, {
+      runId,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// Convex stops an action after ten minutes. A batch still running past this
+// point was cut off, so its tests will never record a result on their own.
+const SUITE_BATCH_DEADLINE_MS = 11 * 60 * 1000;
+
+// Runs the next batch of pending tests in the suite with bounded concurrency,
+// refreshing the aggregate row as each one finishes. Returns whether any tests
+// are still pending.
+async function runSuiteBatch(ctx: ActionCtx, suiteRunId: Id<"suiteRuns">) {
+  const pending: Id<"testRuns">[] = await ctx.runQuery(
+    internal.suites.listSuiteTestRunIds,
+    { suiteRunId },
+  );
+  const batch = pending.slice(0, SUITE_BATCH_SIZE);
+  await ctx.scheduler.runAfter(SUITE_BATCH_DEADLINE_MS, internal.suites.expireSuiteBatch, {
+    suiteRunId,
+    runIds: batch,
+  });
+  const queue = [...batch];
+  const worker = async () => {
+    for (let runId = queue.shift(); runId; runId = queue.shift()) {
+      await runSuiteTest(ctx, runId);
+      await ctx.runMutation(internal.suites.refreshSuiteRun, { suiteRunId });
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(SUITE_CONCURRENCY, queue.length) }, worker),
+  );
+  await ctx.runMutation(internal.suites.refreshSuiteRun, { suiteRunId });
+  return pending.length > SUITE_BATCH_SIZE;
+}
+
+export const startSuiteRun = mutation({
+  args: {
+    token: v.string(),
+    botUrl: v.string(),
+    botId: v.optional(v.id("bots")),
+    lifecycle: v.optional(v.boolean()),
+    repeat: v.optional(v.number()),
+    collectionId: v.optional(v.id("collections")),
+    testIds: v.optional(v.array(v.id("tests"))),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const suiteRunId = await createSuiteRun(ctx, userId as Id<"users">, args);
+    await ctx.scheduler.runAfter(0, internal.suites.executeSuiteRun, { suiteRunId });
+    return { suiteRunId };
+  },
+});
+
+// Used by the HTTP API, which hands back the suite run id for CI to poll.
+export const createSuiteRunForSlug = internalMutation({
+  args: {
+    userId: v.id("users"),
+    slug: v.string(),
+    botUrl: v.string(),
+    lifecycle: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const collection = await ctx.db
+      .query("collections")
+      .withIndex("by_shareSlug", (q) => q.eq("shareSlug", args.slug))
+      .first();
+    if (!collection) {
+      throw new Error("Collection not found.");
+    }
+    const suiteRunId = await createSuiteRun(ctx, args.userId, {
+      botUrl: args.botUrl,
+      lifecycle: args.lifecycle,
+      collectionId: collection._id,
+    });
+    await ctx.scheduler.runAfter(0, internal.suites.executeSuiteRun, { suiteRunId });
+    return { suiteRunId };
+  },
+});
+
+export const getSuiteRun = query({
+  args: { token: v.string(), suiteRunId: v.id("suiteRuns") },
+  handler: async (ctx, args) => {
+    const { userId } = await requireUserSession(ctx, args.token);
+    const suiteRun = await ctx.db.get("suiteRuns", args.suiteRunId);
+    if (!suiteRun || suiteRun.userId !== userId) {
+      return null;
+    }
+    const runs = await ctx.db
+      .query("testRuns")
+      .withIndex("by_suiteRunId", (q) => q.eq("suiteRunId", args.suiteRunId))
+      .collect();
+    return { suiteRun, runs };
+  },
+});
+
+export const listSuiteTestRunIds = internalQuery({
+  args: { suiteRunId: v.id("suiteRuns") },
+  handler: async (ctx, args) => {
+    const runs = await ctx.db
+      .query("testRuns")
+      .withIndex("by_suiteRunId", (q) => q.eq("suiteRunId", args.suiteRunId))
+      .collect();
+    return runs.filter((run) => run.status === "running").map((run) => run._id);
+  },
+});
+
+export const executeSuiteRun = internalAction({
+  args: { suiteRunId: v.id("suiteRuns") },
+  handler: async (ctx, args) => {
+    if (await runSuiteBatch(ctx, args.suiteRunId)) {
+      await ctx.scheduler.runAfter(0, internal.suites.executeSuiteRun, args);
+    }
+  },
+});
+
+// The id comes straight from the request URL, so it is checked here rather
+// than by the argument validator.
+export const getSuiteRunReport = internalQuery({
+  args: { userId: v.id("users"), suiteRunId: v.string() },
+  handler: async (ctx, args) => {
+    const suiteRunId = ctx.db.normalizeId("suiteRuns", args.suiteRunId);
+    const suiteRun = suiteRunId ? await ctx.db.get("suiteRuns", suiteRunId) : null;
+    if (!suiteRun || suiteRun.userId !== args.userId) {
+      return null;
+    }
+    const collection = suiteRun.collectionId
+      ? await ctx.db.get("collections", suiteRun.collectionId)
+      : null;
+    const runs = await ctx.db
+      .query("testRuns")
+      .withIndex("by_suiteRunId", (q) => q.eq("suiteRunId", suiteRun._id))
+      .collect();
+    const results = [];
+    for (const run of runs) {
+      const test = await ctx.db.get("tests", run.testId);
+      results.push({ testName: test?.name ?? "Deleted test", run });
+    }
+    return { suiteRun, collectionName: collection?.name ?? "Deleted collection", results };
+  },
+});
+
+// Marks tests from a batch that outlived the action as timed out, then picks
+// the suite back up, since the action that would have scheduled the next
+// batch is gone too.
+export const expireSuiteBatch = internalMutation({
+  args: { suiteRunId: v.id("suiteRuns"), runIds: v.array(v.id("testRuns")) },
+  handler: async (ctx, args) => {
+    let expired = 0;
+    for (const runId of args.runIds) {
+      const run = await ctx.db.get("testRuns", runId);
+      if (run?.status === "running") {
+        await ctx.db.patch("testRuns", runId, {
+          status: "timeout",
+          error: "The test did not finish before the suite runner's time limit.",
+          completedAt: Date.now(),
+        });
+        expired++;
+      }
+    }
+    if (expired === 0) {
+      return;
+    }
+    if (await refreshSuiteRunCounts(ctx, args.suiteRunId)) {
+      await ctx.scheduler.runAfter(0, internal.suites.executeSuiteRun, {
+        suiteRunId: args.suiteRunId,
+      });
+    }
+  },
+});
+
+export const refreshSuiteRun = internalMutation({
+  args: { suiteRunId: v.id("suiteRuns") },
+  handler: async (ctx, args) => {
+    await refreshSuiteRunCounts(ctx, args.suiteRunId);
+  },
+});
+
+// Recomputes the aggregate row from its test runs. Returns whether any tests
+// are still pending.
+async function refreshSuiteRunCounts(ctx: MutationCtx, suiteRunId: Id<"suiteRuns">) {
+  const suiteRun = await ctx.db.get("suiteRuns", suiteRunId);
+  if (!suiteRun) {
+    return false;
+  }
+  const runs = await ctx.db
+    .query("testRuns")
+    .withIndex("by_suiteRunId", (q) => q.eq("suiteRunId", suiteRunId))
+    .collect();
+  const finished = runs.filter((run) => run.status !== "running");
+  const latencies = finished
+    .flatMap((run) => (run.responseTimeMs !== undefined ? [run.responseTimeMs] : []))
+    .sort((a, b) => a - b);
+  const isComplete = finished.length === runs.length;
+  await ctx.db.patch("suiteRuns", suiteRunId, {
+    status: isComplete ? "completed" : "running",
+    completedCount: finished.length,
+    passCount: finished.filter((run) => run.status === "completed" && run.passed).length,
+    failCount: finished.filter(
+      (run) => (run.status === "completed" && !run.passed) || run.status === "timeout",
+    ).length,
+    errorCount: finished.filter((run) => run.status === "failed").length,
+    timeoutCount: finished.filter((run) => run.status === "timeout").length,
+    p50LatencyMs: percentile(latencies, 0.5),
+    p95LatencyMs: percentile(latencies, 0.95),
+    completedAt: isComplete ? (suiteRun.completedAt ?? Date.now()) : undefined,
+  });
+  return !isComplete;
+}
@@ -0,0 +1,14 @@
+// Board and snake factories shared by the `*.test.ts` specs.
+
+import type { Coordinate, RulesBoard, RulesSnake } from "./rules";
+
+export function snake(id: string, body: Coordinate[], health = 100) {
+  return { id, name: id, health, body, head: body[0], length: body.length };
+}
+
+export function board<TSnake extends RulesSnake>(
+  snakes: TSnake[],
+  extra: Partial<RulesBoard<TSnake>> = {},
+): RulesBoard<TSnake> {
+  return { width: 11, height: 11, food: [], hazards: [], snakes, ...extra };
+}
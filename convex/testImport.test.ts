@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { parseTestImport } from "./testImport";
+
+const moveBody = {
+  game: {
+    id: "game-1",
+    ruleset: { name: "royale", version: "v1", settings: { hazardDamagePerTurn: 20, royale: { shrinkEveryNTurns: 5 } } },
+    map: "royale",
+    timeout: 400,
+  },
+  turn: 12,
+  board: {
+    width: 7,
+    height: 7,
+    food: [{ x: 3, y: 3 }],
+    hazards: [],
+    snakes: [
+      {
+        id: "a",
+        name: "A",
+        health: 90,
+        body: [{ x: 0, y: 0 }, { x: 0, y: 1 }],
+        head: { x: 0, y: 0 },
+        length: 2,
+        latency: "12",
+        shout: "",
+        customizations: { color: "#ff0000", head: "default", tail: "default" },
+      },
+      { id: "b", name: "B", health: 80, body: [{ x: 5, y: 5 }, { x: 5, y: 6 }] },
+    ],
+  },
+  you: { id: "b" },
+};
+
+await test("parseTestImport reads a /move body, keeping you and the known game settings", () => {
+  const result = parseTestImport(JSON.stringify(moveBody));
+  assert.ok(result.ok);
+  assert.equal(result.test.youId, "b");
+  assert.equal(result.test.turn, 12);
+  assert.deepEqual(result.test.game?.ruleset?.settings, { hazardDamagePerTurn: 20 });
+  assert.equal(result.test.board.snakes[0].color, "#ff0000");
+  assert.deepEqual(result.test.board.snakes[1].head, { x: 5, y: 5 });
+  assert.equal(result.test.board.snakes[1].length, 2);
+});
+
+await test("parseTestImport rejects a /move body whose you.id isn't on the board", () => {
+  const result = parseTestImport(JSON.stringify({ ...moveBody, you: { id: "ghost" } }));
+  assert.deepEqual(result, { ok: false, error: `you.id "ghost" doesn't match a living snake on the board.` });
+  assert.deepEqual(parseTestImport(JSON.stringify({ ...moveBody, you: undefined })), {
+    ok: false,
+    error: "A /move body needs you.id.",
+  });
+});
+
+await test("parseTestImport reads a wrapped engine frame, skipping dead snakes", () => {
+  const engine = {
+    Game: { ID: "game-2", Width: 11, Height: 11, Ruleset: { name: "standard", damagePerTurn: "14" }, SnakeTimeout: 500 },
+    LastFrame: {
+      Turn: 30,
+      Food: [{ X: 2, Y: 2 }],
+      Hazards: [],
+      Snakes: [
+        { ID: "dead", Name: "Dead", Health: 0, Body: [{ X: 9, Y: 9 }], Death: { Cause: "wall-collision" } },
+        { ID: "alive", Name: "Alive", Health: 70, Body: [{ X: 4, Y: 4 }, { X: 4, Y: 3 }], Color: "#00ff00" },
+      ],
+    },
+  };
+  const result = parseTestImport(JSON.stringify(engine));
+  assert.ok(result.ok);
+  assert.equal(result.test.youId, "alive");
+  assert.equal(result.test.turn, 30);
+  assert.deepEqual(result.test.board.snakes.map((item) => item.id), ["alive"]);
+  assert.deepEqual(result.test.game?.ruleset?.settings, { hazardDamagePerTurn: 14 });
+  assert.equal(result.test.game?.timeout, 500);
+});
+
+await test("parseTestImport sizes a bare engine frame from its contents", () => {
+  const frame = { Turn: 1, Food: [{ X: 14, Y: 3 }], Snakes: [{ ID: "s", Name: "S", Health: 100, Body: [{ X: 1, Y: 1 }] }] };
+  const result = parseTestImport(JSON.stringify(frame));
+  assert.ok(result.ok);
+  assert.equal(result.test.board.width, 15);
+  assert.equal(result.test.board.height, 11);
+});
+
+await test("parseTestImport explains what it couldn't read", () => {
+  assert.deepEqual(parseTestImport("{"), { ok: false, error: "That isn't valid JSON." });
+  assert.deepEqual(parseTestImport("[]"), { ok: false, error: "Expected a JSON object." });
+  assert.deepEqual(parseTestImport("{}"), { ok: false, error: "Paste a /move request body or an engine frame." });
+  const empty = { ...moveBody, board: { ...moveBody.board, snakes: [] } };
+  assert.deepEqual(parseTestImport(JSON.stringify(empty)), { ok: false, error: "The board has no living snakes." });
+});
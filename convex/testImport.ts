@@ -0,0 +1,212 @@
+// Turns pasted JSON into editor state. Accepts a raw `/move` request body
+// (game, turn, board, you) or an engine frame, either bare or wrapped with
+// its game as `{ Game, LastFrame }` / `{ Game, Frame }`.
+
+import type { Infer } from "convex/values";
+import { board as boardValidator, checkValue, game as gameValidator } from "./validators";
+
+type Board = Infer<typeof boardValidator>;
+type Game = NonNullable<Infer<typeof gameValidator>>;
+type Snake = Board["snakes"][number];
+
+export type ImportedTest = {
+  board: Board;
+  game?: Game;
+  turn: number;
+  youId: string;
+};
+
+export type ImportResult = { ok: true; test: ImportedTest } | { ok: false; error: string };
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function pick(source: JsonObject, keys: string[]) {
+  const picked: JsonObject = {};
+  for (const key of keys) {
+    if (source[key] !== undefined) {
+      picked[key] = source[key];
+    }
+  }
+  return picked;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+function fromMoveRequest(body: JsonObject): ImportResult {
+  if (!isObject(body.board)) {
+    return { ok: false, error: "A /move body needs a board." };
+  }
+  const board = {
+    ...pick(body.board, ["height", "width", "food", "hazards"]),
+    hazards: body.board.hazards ?? [],
+    snakes: Array.isArray(body.board.snakes)
+      ? body.board.snakes.map((item) => {
+          if (!isObject(item)) {
+            return item;
+          }
+          const customizations = isObject(item.customizations) ? item.customizations : {};
+          const segments = Array.isArray(item.body) ? item.body : [];
+          return {
+            ...pick(item, ["id", "name", "health", "body", "head", "length", "latency", "shout", "squad"]),
+            head: item.head ?? segments[0],
+            length: item.length ?? segments.length,
+            color: item.color ?? customizations.color,
+          };
+        })
+      : body.board.snakes,
+  };
+
+  let game: JsonObject | undefined;
+  if (isObject(body.game)) {
+    game = pick(body.game, ["id", "map", "timeout"]);
+    if (isObject(body.game.ruleset)) {
+      const ruleset = pick(body.game.ruleset, ["name", "version"]);
+      if (isObject(body.game.ruleset.settings)) {
+        ruleset.settings = pick(body.game.ruleset.settings, [
+          "foodSpawnChance",
+          "minimumFood",
+          "hazardDamagePerTurn",
+          "hazardMap",
+        ]);
+      }
+      game.ruleset = ruleset;
+    }
+  }
+
+  if (!isObject(body.you) || typeof body.you.id !== "string") {
+    return { ok: false, error: "A /move body needs you.id." };
+  }
+  return finish(board, game, body.turn ?? 0, body.you.id);
+}
+
+// Engine frames use capitalised keys, carry no board size and mark dead
+// snakes with a Death entry instead of removing them.
+function fromEngineFrame(frame: JsonObject, engineGame?: JsonObject): ImportResult {
+  const point = (item: unknown) =>
+    isObject(item) ? { x: item.X ?? item.x, y: item.Y ?? item.y } : item;
+  const snakes = (Array.isArray(frame.Snakes) ? frame.Snakes : [])
+    .filter((item) => !isObject(item) || !item.Death)
+    .map((item) => {
+      if (!isObject(item)) {
+        return item;
+      }
+      const body = Array.isArray(item.Body) ? item.Body.map(point) : [];
+      return {
+        id: item.ID,
+        name: item.Name,
+        health: item.Health,
+        body,
+        head: body[0],
+        length: body.length,
+        color: item.Color || undefined,
+        shout: item.Shout || undefined,
+        squad: item.Squad || undefined,
+      };
+    });
+  const food = Array.isArray(frame.Food) ? frame.Food.map(point) : [];
+  const hazards = Array.isArray(frame.Hazards) ? frame.Hazards.map(point) : [];
+
+  const coordinates = [
+    ...food,
+    ...hazards,
+    ...snakes.flatMap((item) => (isObject(item) && Array.isArray(item.body) ? item.body : [])),
+  ];
+  const extent = (axis: "x" | "y") =>
+    Math.max(
+      11,
+      ...coordinates.map((item) => (isObject(item) ? (toNumber(item[axis]) ?? 0) + 1 : 0)),
+    );
+  const board = {
+    width: toNumber(engineGame?.Width) ?? extent("x"),
+    height: toNumber(engineGame?.Height) ?? extent("y"),
+    food,
+    hazards,
+    snakes,
+  };
+
+  let game: JsonObject | undefined;
+  if (engineGame) {
+    const rulesetSource = isObject(engineGame.Ruleset) ? engineGame.Ruleset : {};
+    const settings = {
+      foodSpawnChance: toNumber(rulesetSource.foodSpawnChance),
+      minimumFood: toNumber(rulesetSource.minimumFood),
+      hazardDamagePerTurn: toNumber(rulesetSource.damagePerTurn ?? rulesetSource.hazardDamagePerTurn),
+    };
+    game = {
+      id: engineGame.ID,
+      ruleset: {
+        name: rulesetSource.name ?? engineGame.RulesetName,
+        settings: Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)),
+      },
+      map: engineGame.Map || undefined,
+      timeout: toNumber(engineGame.SnakeTimeout),
+    };
+  }
+
+  // Frames don't say which snake is ours, so the first one is picked and can
+  // be changed in the editor.
+  return finish(board, game, frame.Turn ?? 0);
+}
+
+function finish(board: unknown, game: unknown, turn: unknown, youId?: string): ImportResult {
+  const boardError = checkValue(boardValidator, board, "board");
+  if (boardError) {
+    return { ok: false, error: boardError };
+  }
+  const gameError = checkValue(gameValidator, game, "game");
+  if (gameError) {
+    return { ok: false, error: gameError };
+  }
+  if (typeof turn !== "number") {
+    return { ok: false, error: "turn must be a number." };
+  }
+  const validBoard = board as Board;
+  if (validBoard.snakes.length === 0) {
+    return { ok: false, error: "The board has no living snakes." };
+  }
+  const you =
+    youId === undefined
+      ? validBoard.snakes[0]
+      : validBoard.snakes.find((item: Snake) => item.id === youId);
+  if (!you) {
+    return { ok: false, error: `you.id "${youId}" doesn't match a living snake on the board.` };
+  }
+  return {
+    ok: true,
+    test: { board: validBoard, game: game as Game | undefined, turn, youId: you.id },
+  };
+}
+
+export function parseTestImport(text: string): ImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "That isn't valid JSON." };
+  }
+  if (!isObject(parsed)) {
+    return { ok: false, error: "Expected a JSON object." };
+  }
+  if (isObject(parsed.board)) {
+    return fromMoveRequest(parsed);
+  }
+  if (isObject(parsed.Game) && isObject(parsed.LastFrame ?? parsed.Frame)) {
+    return fromEngineFrame((parsed.LastFrame ?? parsed.Frame) as JsonObject, parsed.Game);
+  }
+  if (Array.isArray(parsed.Snakes)) {
+    return fromEngineFrame(parsed);
+  }
+  return { ok: false, error: "Paste a /move request body or an engine frame." };
+}
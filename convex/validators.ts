@@ -0,0 +1,179 @@
+import { v } from "convex/values";
+import type { GenericValidator } from "convex/values";
+
+export const coordinate = v.object({ x: v.number(), y: v.number() });
+export const snake = v.object({
+  id: v.string(),
+  name: v.string(),
+  health: v.number(),
+  body: v.array(coordinate),
+  head: coordinate,
+  length: v.number(),
+  latency: v.optional(v.string()),
+  shout: v.optional(v.string()),
+  team: v.optional(v.string()),
+  squad: v.optional(v.string()),
+  isKing: v.optional(v.boolean()),
+  headEmoji: v.optional(v.string()),
+  color: v.optional(v.string()),
+});
+export const board = v.object({
+  height: v.number(),
+  width: v.number(),
+  food: v.array(coordinate),
+  hazards: v.array(coordinate),
+  snakes: v.array(snake),
+});
+export const ruleset = v.optional(
+  v.object({
+    name: v.optional(v.string()),
+    version: v.optional(v.string()),
+    settings: v.optional(
+      v.object({
+        foodSpawnChance: v.optional(v.number()),
+        minimumFood: v.optional(v.number()),
+        hazardDamagePerTurn: v.optional(v.number()),
+        hazardMap: v.optional(v.string()),
+      }),
+    ),
+  }),
+);
+export const game = v.optional(
+  v.object({
+    id: v.optional(v.string()),
+    ruleset,
+    map: v.optional(v.string()),
+    timeout: v.optional(v.number()),
+  }),
+);
+export const scenario = v.optional(
+  v.object({
+    turns: v.number(),
+    opponentMoves: v.array(
+      v.object({ snakeId: v.string(), moves: v.array(v.string()) }),
+    ),
+    goal: v.optional(
+      v.union(v.literal("survive"), v.literal("king-survives"), v.literal("team-wins")),
+    ),
+  }),
+);
+export const botHeader = v.object({ name: v.string(), value: v.string() });
+export const botInfo = v.object({
+  apiversion: v.optional(v.string()),
+  author: v.optional(v.string()),
+  color: v.optional(v.string()),
+  head: v.optional(v.string()),
+  tail: v.optional(v.string()),
+  version: v.optional(v.string()),
+});
+export const lifecycleStep = v.object({
+  step: v.union(v.literal("info"), v.literal("start"), v.literal("move"), v.literal("end")),
+  ok: v.boolean(),
+  status: v.optional(v.number()),
+  responseTimeMs: v.optional(v.number()),
+  error: v.optional(v.string()),
+});
+export const boardTransform = v.union(
+  v.literal("mirror-x"),
+  v.literal("mirror-y"),
+  v.literal("rotate-90"),
+  v.literal("rotate-180"),
+  v.literal("rotate-270"),
+);
+// Moves are null when the bot gave no usable answer (an error or no move).
+export const repeatSummary = v.object({
+  runs: v.number(),
+  passes: v.number(),
+  moves: v.array(v.object({ move: v.union(v.string(), v.null()), count: v.number() })),
+  flakiness: v.number(),
+});
+export const moveGrade = v.union(
+  v.literal("preferred"),
+  v.literal("acceptable"),
+  v.literal("unexpected"),
+  v.literal("forbidden"),
+);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Checks a value against a validator the way Convex does for function
+// arguments, so the client can reject bad input before calling a mutation.
+// Returns a message naming the first offending path, or null.
+export function checkValue(
+  validator: GenericValidator,
+  value: unknown,
+  path = "value",
+): string | null {
+  if (value === undefined) {
+    return validator.isOptional === "optional" ? null : `${path} is required.`;
+  }
+  switch (validator.kind) {
+    case "any":
+      return null;
+    case "id":
+    case "string":
+      return typeof value === "string" ? null : `${path} must be a string.`;
+    case "float64":
+      return typeof value === "number" && Number.isFinite(value)
+        ? null
+        : `${path} must be a number.`;
+    case "int64":
+      return typeof value === "bigint" ? null : `${path} must be a bigint.`;
+    case "boolean":
+      return typeof value === "boolean" ? null : `${path} must be true or false.`;
+    case "null":
+      return value === null ? null : `${path} must be null.`;
+    case "bytes":
+      return value instanceof ArrayBuffer ? null : `${path} must be bytes.`;
+    case "literal":
+      return value === validator.value ? null : `${path} must be ${JSON.stringify(validator.value)}.`;
+    case "array": {
+      if (!Array.isArray(value)) {
+        return `${path} must be an array.`;
+      }
+      for (let index = 0; index < value.length; index++) {
+        const error = checkValue(validator.element, value[index], `${path}[${index}]`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+    case "record": {
+      if (!isPlainObject(value)) {
+        return `${path} must be an object.`;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const error = checkValue(validator.value, item, `${path}.${key}`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+    case "object": {
+      if (!isPlainObject(value)) {
+        return `${path} must be an object.`;
+      }
+      const fields = validator.fields as Record<string, GenericValidator>;
+      const unknownKey = Object.keys(value).find((key) => !(key in fields));
+      if (unknownKey) {
+        return `${path}.${unknownKey} is not a known field.`;
+      }
+      for (const [key, fieldValidator] of Object.entries(fields)) {
+        const error = checkValue(fieldValidator, value[key], `${path}.${key}`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    }
+    case "union": {
+      const members = validator.members as GenericValidator[];
+      const errors = members.map((member) => checkValue(member, value, path));
+      return errors.includes(null) ? null : (errors[0] ?? `${path} is not valid.`);
+    }
+  }
+}
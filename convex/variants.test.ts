@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { MOVE_OFFSETS } from "./rules";
+import { snake } from "./testFixtures";
+import {
+  BOARD_TRANSFORMS,
+  fuzzVariants,
+  perturbOpponentHealth,
+  remapMove,
+  renameSnakes,
+  seededRandom,
+  transformTest,
+} from "./variants";
+import type { VariantSource } from "./variants";
+
+const original: VariantSource = {
+  board: {
+    width: 7,
+    height: 5,
+    food: [{ x: 6, y: 4 }],
+    hazards: [{ x: 0, y: 0 }],
+    snakes: [
+      snake("you", [{ x: 1, y: 1 }, { x: 1, y: 0 }]),
+      snake("rival", [{ x: 5, y: 3 }, { x: 6, y: 3 }], 80),
+    ],
+  },
+  youId: "you",
+  expectedSafeMoves: ["up", "right"],
+  preferredMove: "right",
+  forbiddenMoves: ["left"],
+  scenario: { turns: 2, opponentMoves: [{ snakeId: "rival", moves: ["left", "up"] }] },
+};
+
+await test("transformTest mirrors coordinates and swaps left and right", () => {
+  const mirrored = transformTest(original, "mirror-x");
+  assert.deepEqual(mirrored.board.snakes[0].body, [{ x: 5, y: 1 }, { x: 5, y: 0 }]);
+  assert.deepEqual(mirrored.board.food, [{ x: 0, y: 4 }]);
+  assert.deepEqual(mirrored.expectedSafeMoves, ["up", "left"]);
+  assert.equal(mirrored.preferredMove, "left");
+  assert.deepEqual(mirrored.forbiddenMoves, ["right"]);
+  assert.deepEqual(mirrored.scenario?.opponentMoves[0].moves, ["right", "up"]);
+});
+
+await test("transformTest swaps the board size when rotating a quarter turn", () => {
+  const rotated = transformTest(original, "rotate-90");
+  assert.equal(rotated.board.width, 5);
+  assert.equal(rotated.board.height, 7);
+  assert.deepEqual(rotated.board.snakes[0].head, { x: 1, y: 5 });
+  assert.deepEqual(rotated.expectedSafeMoves, ["right", "down"]);
+  const onBoard = (point: { x: number; y: number }) =>
+    point.x >= 0 && point.y >= 0 && point.x < rotated.board.width && point.y < rotated.board.height;
+  assert.ok(rotated.board.snakes.every((item) => item.body.every(onBoard)));
+});
+
+await test("transformTest gets back to the original after four quarter turns", () => {
+  let rotated = original;
+  for (let turn = 0; turn < 4; turn++) {
+    rotated = transformTest(rotated, "rotate-90");
+  }
+  assert.deepEqual(rotated, original);
+});
+
+await test("remapMove keeps a head step pointing at the same cell after every transform", () => {
+  const head = original.board.snakes[0].head;
+  const marked = { ...original, board: { ...original.board, food: [{ x: head.x + 1, y: head.y }] } };
+  for (const transform of BOARD_TRANSFORMS) {
+    const newHead = transformTest(original, transform).board.snakes[0].head;
+    const target = transformTest(marked, transform).board.food[0];
+    const step = MOVE_OFFSETS[remapMove("right", transform)];
+    assert.deepEqual({ x: newHead.x + step.x, y: newHead.y + step.y }, target, transform);
+  }
+});
+
+await test("renameSnakes renames youId and scripted opponents along with the snakes", () => {
+  const renamed = renameSnakes(original, (id) => `${id}-2`);
+  assert.equal(renamed.youId, "you-2");
+  assert.deepEqual(renamed.board.snakes.map((item) => item.id), ["you-2", "rival-2"]);
+  assert.equal(renamed.scenario?.opponentMoves[0].snakeId, "rival-2");
+});
+
+await test("perturbOpponentHealth only changes opponents", () => {
+  const perturbed = perturbOpponentHealth(original, seededRandom(1));
+  assert.ok(perturbed);
+  assert.equal(perturbed.board.snakes[0].health, 100);
+  assert.notEqual(perturbed.board.snakes[1].health, 80);
+});
+
+await test("fuzzVariants is deterministic for a seed", () => {
+  assert.deepEqual(fuzzVariants(original, 42), fuzzVariants(original, 42));
+  const youIds = (seed: number) => fuzzVariants(original, seed).map((variant) => variant.test.youId);
+  assert.notDeepEqual(youIds(42), youIds(7));
+});
@@ -0,0 +1,221 @@
+// Rewrites a test into variants that should mean the same thing to a bot:
+// the board mirrored or rotated with every expected move remapped, snakes
+// renamed, far-away food moved and opponent health nudged. A bot that passes
+// the original but fails a variant is likely relying on something the test
+// never meant to check.
+
+import type { BundleTest } from "./bundleFormat";
+
+type Board = BundleTest["board"];
+type Coordinate = Board["food"][number];
+
+export type VariantSource = Pick<
+  BundleTest,
+  "board" | "youId" | "expectedSafeMoves" | "preferredMove" | "forbiddenMoves" | "scenario"
+>;
+
+export type BoardTransform = "mirror-x" | "mirror-y" | "rotate-90" | "rotate-180" | "rotate-270";
+
+export const BOARD_TRANSFORMS: BoardTransform[] = [
+  "mirror-x",
+  "mirror-y",
+  "rotate-90",
+  "rotate-180",
+  "rotate-270",
+];
+
+export const BOARD_TRANSFORM_LABELS: Record<BoardTransform, string> = {
+  "mirror-x": "Mirrored left-right",
+  "mirror-y": "Mirrored top-bottom",
+  "rotate-90": "Rotated 90° clockwise",
+  "rotate-180": "Rotated 180°",
+  "rotate-270": "Rotated 90° counter-clockwise",
+};
+
+const MOVE_MAPS: Record<BoardTransform, Record<string, string>> = {
+  "mirror-x": { up: "up", down: "down", left: "right", right: "left" },
+  "mirror-y": { up: "down", down: "up", left: "left", right: "right" },
+  "rotate-90": { up: "right", right: "down", down: "left", left: "up" },
+  "rotate-180": { up: "down", down: "up", left: "right", right: "left" },
+  "rotate-270": { up: "left", left: "down", down: "right", right: "up" },
+};
+
+// Food this close to a snake head (plus one per scenario turn) may be what
+// the test is about, so it is never moved.
+const FOOD_RELEVANCE_DISTANCE = 3;
+// Opponents this hungry may be about to starve, which a test can rely on.
+const MIN_PERTURBED_HEALTH = 10;
+const HEALTH_PERTURBATION = 20;
+
+export function remapMove(move: string, transform: BoardTransform) {
+  return MOVE_MAPS[transform][move] ?? move;
+}
+
+function mapCoordinate(point: Coordinate, board: Board, transform: BoardTransform): Coordinate {
+  const { width, height } = board;
+  switch (transform) {
+    case "mirror-x":
+      return { x: width - 1 - point.x, y: point.y };
+    case "mirror-y":
+      return { x: point.x, y: height - 1 - point.y };
+    case "rotate-90":
+      return { x: point.y, y: width - 1 - point.x };
+    case "rotate-180":
+      return { x: width - 1 - point.x, y: height - 1 - point.y };
+    case "rotate-270":
+      return { x: height - 1 - point.y, y: point.x };
+  }
+}
+
+function mapMoves<T extends VariantSource>(test: T, mapMove: (move: string) => string): T {
+  return {
+    ...test,
+    expectedSafeMoves: test.expectedSafeMoves.map(mapMove),
+    preferredMove: test.preferredMove && mapMove(test.preferredMove),
+    forbiddenMoves: test.forbiddenMoves?.map(mapMove),
+    scenario: test.scenario && {
+      ...test.scenario,
+      opponentMoves: test.scenario.opponentMoves.map((script) => ({
+        ...script,
+        moves: script.moves.map(mapMove),
+      })),
+    },
+  };
+}
+
+export function transformTest<T extends VariantSource>(test: T, transform: BoardTransform): T {
+  const { board } = test;
+  const map = (point: Coordinate) => mapCoordinate(point, board, transform);
+  const rotated = transform === "rotate-90" || transform === "rotate-270";
+  return mapMoves(
+    {
+      ...test,
+      board: {
+        ...board,
+        width: rotated ? board.height : board.width,
+        height: rotated ? board.width : board.height,
+        food: board.food.map(map),
+        hazards: board.hazards.map(map),
+        snakes: board.snakes.map((snake) => ({
+          ...snake,
+          head: map(snake.head),
+          body: snake.body.map(map),
+        })),
+      },
+    },
+    (move) => remapMove(move, transform),
+  );
+}
+
+export function renameSnakes<T extends VariantSource>(test: T, rename: (id: string, index: number) => string): T {
+  const ids = new Map(test.board.snakes.map((snake, index) => [snake.id, rename(snake.id, index)]));
+  const newId = (id: string) => ids.get(id) ?? id;
+  return {
+    ...test,
+    youId: newId(test.youId),
+    board: {
+      ...test.board,
+      snakes: test.board.snakes.map((snake) => ({ ...snake, id: newId(snake.id) })),
+    },
+    scenario: test.scenario && {
+      ...test.scenario,
+      opponentMoves: test.scenario.opponentMoves.map((script) => ({
+        ...script,
+        snakeId: newId(script.snakeId),
+      })),
+    },
+  };
+}
+
+// mulberry32: small, seedable and good enough to pick cells.
+export function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function isFarFromHeads(point: Coordinate, test: VariantSource) {
+  const distance = FOOD_RELEVANCE_DISTANCE + (test.scenario?.turns ?? 0);
+  return test.board.snakes.every(
+    (snake) => Math.abs(snake.head.x - point.x) + Math.abs(snake.head.y - point.y) > distance,
+  );
+}
+
+// Returns null when no food is far enough from every head to be moved.
+export function shiftIrrelevantFood<T extends VariantSource>(test: T, random: () => number): T | null {
+  const { board } = test;
+  const key = (point: Coordinate) => `${point.x},${point.y}`;
+  const taken = new Set([
+    ...board.food.map(key),
+    ...board.hazards.map(key),
+    ...board.snakes.flatMap((snake) => snake.body.map(key)),
+  ]);
+  const freeCells: Coordinate[] = [];
+  for (let x = 0; x < board.width; x++) {
+    for (let y = 0; y < board.height; y++) {
+      if (!taken.has(key({ x, y })) && isFarFromHeads({ x, y }, test)) {
+        freeCells.push({ x, y });
+      }
+    }
+  }
+  let moved = false;
+  const food = board.food.map((point) => {
+    if (!isFarFromHeads(point, test) || freeCells.length === 0) {
+      return point;
+    }
+    moved = true;
+    const [cell] = freeCells.splice(Math.floor(random() * freeCells.length), 1);
+    return cell;
+  });
+  return moved ? { ...test, board: { ...board, food } } : null;
+}
+
+// Returns null when there is no opponent healthy enough to perturb.
+export function perturbOpponentHealth<T extends VariantSource>(test: T, random: () => number): T | null {
+  let changed = false;
+  const snakes = test.board.snakes.map((snake) => {
+    if (snake.id === test.youId || snake.health <= MIN_PERTURBED_HEALTH) {
+      return snake;
+    }
+    const offset = Math.round((random() * 2 - 1) * HEALTH_PERTURBATION);
+    const health = Math.min(Math.max(snake.health + offset, MIN_PERTURBED_HEALTH + 1), 100);
+    changed ||= health !== snake.health;
+    return { ...snake, health };
+  });
+  return changed ? { ...test, board: { ...test.board, snakes } } : null;
+}
+
+export type TestVariant<T extends VariantSource> = { label: string; test: T };
+
+// Every symmetry on its own, then the other mutations, then all of them
+// stacked on a random symmetry.
+export function fuzzVariants<T extends VariantSource>(test: T, seed: number): TestVariant<T>[] {
+  const random = seededRandom(seed);
+  const variants: TestVariant<T>[] = BOARD_TRANSFORMS.map((transform) => ({
+    label: BOARD_TRANSFORM_LABELS[transform],
+    test: transformTest(test, transform),
+  }));
+
+  const rename = (_id: string, index: number) => `fuzz-${seed.toString(36)}-${index}`;
+  variants.push({ label: "Snake ids renamed", test: renameSnakes(test, rename) });
+  const shifted = shiftIrrelevantFood(test, random);
+  if (shifted) {
+    variants.push({ label: "Far food moved", test: shifted });
+  }
+  const perturbed = perturbOpponentHealth(test, random);
+  if (perturbed) {
+    variants.push({ label: "Opponent health changed", test: perturbed });
+  }
+
+  const transform = BOARD_TRANSFORMS[Math.floor(random() * BOARD_TRANSFORMS.length)];
+  let combined = renameSnakes(transformTest(test, transform), rename);
+  combined = shiftIrrelevantFood(combined, random) ?? combined;
+  combined = perturbOpponentHealth(combined, random) ?? combined;
+  variants.push({ label: `${BOARD_TRANSFORM_LABELS[transform]}, all mutations`, test: combined });
+  return variants;
+}
@@ -0,0 +1,145 @@
+// Runs an exported test bundle against a bot the Convex actions can't reach,
+// such as one on localhost. Tests go through the same runner as the app
+// (convex/runner.ts), so a test passes here exactly when it would pass there.
+//
+//   npm run suite -- ./my-tests.snek.json --bot http://localhost:8000
+//   npm run suite -- <share-slug> --bot http://localhost:8000 --convex-url https://<deployment>.convex.cloud
+
+import { readFile } from "node:fs/promises";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "../convex/_generated/api";
+import { parseBundle } from "../convex/bundleFormat";
+import type { Bundle } from "../convex/bundleFormat";
+import { moveEndpoint, runTestAgainstBot } from "../convex/runner";
+import type { BotInfo, PlayOutcome } from "../convex/runner";
+import { MOVE_GRADE_LABELS, percentile } from "../convex/scoring";
+
+const USAGE = `Usage: npm run suite -- <bundle.json | share-slug> [--bot <url>] [--convex-url <url>] [--lifecycle]
+
+  --bot         Bot base URL (default http://localhost:8000)
+  --convex-url  Deployment to fetch a share slug from (default $CONVEX_URL or $VITE_CONVEX_URL)
+  --lifecycle   Also call GET /, /start and /end around each test`;
+
+type Options = { source: string; botUrl: string; convexUrl?: string; lifecycle?: boolean };
+
+function parseArgs(argv: string[]): Options | null {
+  const options: Partial<Options> = {
+    botUrl: "http://localhost:8000",
+    convexUrl: process.env.CONVEX_URL ?? process.env.VITE_CONVEX_URL,
+  };
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === "--bot") {
+      options.botUrl = argv[++index];
+    } else if (arg === "--convex-url") {
+      options.convexUrl = argv[++index];
+    } else if (arg === "--lifecycle") {
+      options.lifecycle = true;
+    } else if (arg.startsWith("-") || options.source) {
+      return null;
+    } else {
+      options.source = arg;
+    }
+  }
+  return options.source && options.botUrl ? (options as Options) : null;
+}
+
+async function loadBundle(source: string, convexUrl?: string): Promise<Bundle> {
+  if (/\.json$/i.test(source)) {
+    const parsed = parseBundle(await readFile(source, "utf8"));
+    if (!parsed.ok) {
+      throw new Error(`${source}: ${parsed.error}`);
+    }
+    return parsed.bundle;
+  }
+  if (!convexUrl) {
+    throw new Error("Fetching by share slug needs --convex-url or CONVEX_URL.");
+  }
+  const bundle = await new ConvexHttpClient(convexUrl).query(api.bundles.exportCollectionBySlug, {
+    slug: source,
+  });
+  if (!bundle) {
+    throw new Error(`No public collection with share slug "${source}".`);
+  }
+  return bundle;
+}
+
+function describeLifecycle(outcome: PlayOutcome) {
+  const failed = outcome.lifecycleSteps?.filter((step) => !step.ok && step.step !== "move") ?? [];
+  return failed.map((step) => ` [${step.step}: ${step.error ?? "failed"}]`).join("");
+}
+
+function describe(outcome: PlayOutcome) {
+  if (!outcome.ok) {
+    return outcome.error + describeLifecycle(outcome);
+  }
+  if (outcome.scenarioMoves) {
+    const survived = `survived ${outcome.survivedTurns ?? 0} turns`;
+    const scenario = outcome.eliminationCause ? `${survived} (${outcome.eliminationCause})` : survived;
+    return scenario + describeLifecycle(outcome);
+  }
+  return `${outcome.move ?? "no move"} - ${MOVE_GRADE_LABELS[outcome.grade]}${describeLifecycle(outcome)}`;
+}
+
+function printTable(rows: string[][]) {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd());
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    return 2;
+  }
+  const endpoint = moveEndpoint(options.botUrl);
+  if (!endpoint) {
+    console.error("Bot URL is required.");
+    return 2;
+  }
+  const bundle = await loadBundle(options.source, options.convexUrl);
+  console.log(`Running ${bundle.tests.length} tests from "${bundle.name ?? options.source}" against ${endpoint}\n`);
+
+  const rows = [["RESULT", "TEST", "DETAILS", "LATENCY"]];
+  const formatMs = (ms?: number) => (ms === undefined ? "-" : `${ms}ms`);
+  const latencies: number[] = [];
+  let passCount = 0;
+  let botInfo: BotInfo | undefined;
+  for (const [index, test] of bundle.tests.entries()) {
+    const outcome = await runTestAgainstBot(endpoint, test, {
+      gameId: `local-${index}`,
+      lifecycle: options.lifecycle,
+    });
+    botInfo ??= outcome.botInfo;
+    const passed = outcome.ok && outcome.passed;
+    if (passed) {
+      passCount++;
+    }
+    const result = passed ? "PASS" : outcome.ok ? "FAIL" : outcome.timedOut ? "TIMEOUT" : "ERROR";
+    if (outcome.responseTimeMs !== undefined) {
+      latencies.push(outcome.responseTimeMs);
+    }
+    rows.push([result, test.name, describe(outcome), formatMs(outcome.responseTimeMs)]);
+  }
+  if (botInfo) {
+    const fields = Object.entries(botInfo).map(([key, value]) => `${key}=${value}`);
+    console.log(`Bot: ${fields.join(" ") || "no info"}\n`);
+  }
+  printTable(rows);
+
+  latencies.sort((a, b) => a - b);
+  console.log(
+    `\n${passCount}/${bundle.tests.length} passed | p50 ${formatMs(percentile(latencies, 0.5))} | p95 ${formatMs(percentile(latencies, 0.95))}`,
+  );
+  return passCount === bundle.tests.length ? 0 : 1;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  },
+);
@@ -2,6 +2,12 @@ import { useAction, useMutation, useQuery } from "convex/react";
 import { useMemo, useState, type Dispatch, type SetStateAction } from "react";
 import { api } from "../convex/_generated/api";
 import type { Id } from "../convex/_generated/dataModel";
+import {
+  generateHazards,
+  HAZARD_PRESET_LABELS,
+  HAZARD_PRESETS,
+  type HazardPreset,
+} from "../convex/hazardPresets";
 
 type Coordinate = { x: number; y: number };
 type Snake = {
@@ -52,6 +58,7 @@ type RunResult = {
   ok: boolean;
   move?: string | null;
   shout?: string | null;
+  passed?: boolean;
   error?: string;
   status?: number;
   raw?: unknown;
@@ -76,6 +83,7 @@ type EditorState = {
   hazards: Coordinate[];
   snakes: EditableSnake[];
   youId: string;
+  game?: Game;
 };
 type EditorStateSetter = Dispatch<SetStateAction<EditorState>>;
 
@@ -240,6 +248,7 @@ export default function App() {
     turn: number;
     expectedSafeMoves: string[];
     board: Board;
+    game?: Game;
     youId: string;
   } => {
     const expectedSafeMoves = state.expectedSafeMoves
@@ -285,6 +294,7 @@ export default function App() {
       turn: state.turn,
       expectedSafeMoves,
       board,
+      game: state.game,
       youId,
     };
   };
@@ -303,7 +313,7 @@ export default function App() {
           id: editingTestId,
           name: normalized.name,
           board: normalized.board,
-          game: undefined,
+          game: normalized.game,
           turn: normalized.turn,
           youId: normalized.youId,
           expectedSafeMoves: normalized.expectedSafeMoves,
@@ -316,7 +326,7 @@ export default function App() {
           adminToken,
           name: normalized.name,
           board: normalized.board,
-          game: undefined,
+          game: normalized.game,
           turn: normalized.turn,
           youId: normalized.youId,
           expectedSafeMoves: normalized.expectedSafeMoves,
@@ -366,6 +376,7 @@ export default function App() {
         body: snakeItem.body,
       })),
       youId: testItem.youId,
+      game: testItem.game,
     });
     setActiveSnakeId(testItem.youId);
   };
@@ -1041,6 +1052,31 @@ function BoardEditor({
   placementMode: PlacementMode;
   activeSnakeId: string;
 }) {
+  const [hazardPreset, setHazardPreset] = useState<HazardPreset>("royale");
+
+  const applyHazardPreset = () => {
+    const layout = generateHazards(
+      hazardPreset,
+      { width: editorState.width, height: editorState.height },
+      editorState.turn,
+    );
+    setEditorState({
+      ...editorState,
+      hazards: layout.hazards,
+      game: {
+        ...editorState.game,
+        ruleset: {
+          ...editorState.game?.ruleset,
+          settings: {
+            ...editorState.game?.ruleset?.settings,
+            hazardMap: layout.hazardMap,
+            hazardDamagePerTurn: layout.hazardDamagePerTurn,
+          },
+        },
+      },
+    });
+  };
+
   const handleCellClick = (x: number, y: number) => {
     const toggleCoordinate = (
       list: Coordinate[],
@@ -1135,6 +1171,31 @@ function BoardEditor({
       <p className="text-xs text-slate-500">
         Click tiles to place food, hazards, or snake segments.
       </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={hazardPreset}
+          onChange={(event) => setHazardPreset(event.target.value as HazardPreset)}
+          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+        >
+          {HAZARD_PRESETS.map((preset) => (
+            <option key={preset} value={preset}>
+              {HAZARD_PRESET_LABELS[preset]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={applyHazardPreset}
+          className="rounded-xl border border-slate-200 px-4 py-2 text-sm font-semibold hover:bg-slate-50"
+        >
+          Apply hazard preset
+        </button>
+        {editorState.game?.ruleset?.settings?.hazardMap && (
+          <span className="text-xs text-slate-500">
+            Map: {editorState.game.ruleset.settings.hazardMap}, damage{" "}
+            {editorState.game.ruleset.settings.hazardDamagePerTurn ?? "default"}
+          </span>
+        )}
+      </div>
       <div className="p-4">
         <BoardView
           board={{
@@ -1180,7 +1241,7 @@ function TestCard({
   const status = result?.ok
     ? testItem.expectedSafeMoves.length === 0
       ? "move logged"
-      : result.move && testItem.expectedSafeMoves.includes(result.move)
+      : result.passed
         ? "pass"
         : "fail"
     : result
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+type Props = {
+  token: string;
+};
+
+const HTTP_API_URL = (import.meta.env.VITE_CONVEX_URL as string | undefined)?.replace(
+  /\.convex\.cloud\/?$/,
+  ".convex.site"
+);
+
+export default function ApiKeysPanel({ token }: Props) {
+  const [name, setName] = useState("");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const keys = useQuery(api.apiKeys.listApiKeys, { token });
+  const createApiKey = useMutation(api.apiKeys.createApiKey);
+  const revokeApiKey = useMutation(api.apiKeys.revokeApiKey);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setError(null);
+    try {
+      const { key } = await createApiKey({ token, name });
+      setNewKey(key);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key.");
+    }
+  };
+
+  const handleRevoke = async (keyId: Id<"apiKeys">) => {
+    if (confirm("Revoke this API key? CI jobs using it will stop working.")) {
+      await revokeApiKey({ token, keyId });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-ink border border-sand/20 rounded-lg p-4">
+        <label className="block text-sand/80 text-sm mb-1">New API key name</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="GitHub Actions"
+            className="flex-1 bg-night border border-sand/20 rounded px-3 py-2 text-sand focus:outline-none focus:border-lagoon"
+          />
+          <button
+            onClick={() => void handleCreate()}
+            disabled={!name.trim()}
+            className="bg-lagoon text-ink px-4 py-2 rounded hover:bg-lagoon/80 disabled:opacity-50"
+          >
+            Create Key
+          </button>
+        </div>
+        {error && <p className="text-ember text-sm mt-2">{error}</p>}
+        {newKey && (
+          <div className="mt-3 p-3 bg-night rounded border border-moss/40">
+            <p className="text-moss text-sm mb-1">Copy this key now. It won't be shown again.</p>
+            <code className="text-sand text-sm break-all">{newKey}</code>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-ink border border-sand/20 rounded-lg p-4 text-sm">
+        <p className="text-sand/80 mb-2">Run a collection from CI:</p>
+        <pre className="text-sand/60 text-xs whitespace-pre-wrap break-all">
+{`API="${HTTP_API_URL ?? "https://<deployment>.convex.site"}"
+RUN_ID=$(curl --fail-with-body -s -X POST \\
+  -H "Authorization: Bearer $SNEK_API_KEY" \\
+  -d '{"botUrl": "https://your-battlesnake.com"}' \\
+  "$API/api/suites/<share-slug>/run" | jq -r .suiteRunId)
+until CODE=$(curl -s -o report.xml -w '%{http_code}' \\
+  -H "Authorization: Bearer $SNEK_API_KEY" \\
+  "$API/api/suites/runs/$RUN_ID?format=junit") && [ "$CODE" != 202 ]; do sleep 5; done
+cat report.xml
+[ "$CODE" = 200 ]`}
+        </pre>
+        <p className="text-sand/40 text-xs mt-2">
+          Starting a run responds 202 with its <code>suiteRunId</code>. Polling it responds 202 while the suite runs,
+          then 200 when every test passes and 422 otherwise. Leave off <code>format=junit</code> for JSON.
+        </p>
+      </div>
+
+      {keys && keys.length > 0 && (
+        <div className="space-y-2">
+          {keys.map((key) => (
+            <div key={key._id} className="bg-ink border border-sand/20 rounded-lg p-3 flex items-center justify-between">
+              <div>
+                <span className="text-sand font-semibold">{key.name}</span>
+                <span className="text-sand/40 text-sm ml-2">{key.prefix}...</span>
+                <p className="text-sand/40 text-xs">
+                  Created {new Date(key.createdAt).toLocaleDateString()}
+                  {key.lastUsedAt && ` | Last used ${new Date(key.lastUsedAt).toLocaleString()}`}
+                </p>
+              </div>
+              {key.revokedAt ? (
+                <span className="px-2 py-0.5 text-xs rounded bg-ember/20 text-ember">Revoked</span>
+              ) : (
+                <button
+                  onClick={() => void handleRevoke(key._id)}
+                  className="text-sm px-3 py-1 bg-ember/20 text-ember rounded hover:bg-ember/30"
+                >
+                  Revoke
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -29,6 +29,8 @@ type Props = {
 
 const SNAKE_COLORS = ["#43b047", "#e55b3c", "#4285f4", "#f4b400", "#9c27b0", "#00bcd4"];
 const YOU_SNAKE_COLOR = "#43b047";
+// Darker reds for cells with more stacked hazards.
+const HAZARD_COLORS = ["#dc2626", "#b91c1c", "#991b1b", "#7f1d1d"];
 
 function getSnakeColor(snakes: Snake[], snakeIndex: number, youId: string): string {
   const snake = snakes[snakeIndex];
@@ -48,13 +50,16 @@ function getSnakeColor(snakes: Snake[], snakeIndex: number, youId: string): stri
 function getCellContent(board: Board, x: number, y: number, youId: string) {
   for (let i = 0; i < board.snakes.length; i++) {
     const snake = board.snakes[i];
-    const bodyIndex = snake.body.findIndex((b) => b.x === x && b.y === y);
-    if (bodyIndex !== -1) {
-      const isHead = bodyIndex === 0;
+    // A cell can hold several stacked segments, e.g. the tail right after
+    // eating or the whole snake on turn 0.
+    const bodyIndexes = snake.body.flatMap((b, index) => (b.x === x && b.y === y ? [index] : []));
+    if (bodyIndexes.length > 0) {
+      const isHead = bodyIndexes[0] === 0;
       const isYou = snake.id === youId;
       const label = isYou ? "Y" : String(i + 1);
-      const prevSegment = bodyIndex > 0 ? snake.body[bodyIndex - 1] : null;
-      const nextSegment = bodyIndex < snake.body.length - 1 ? snake.body[bodyIndex + 1] : null;
+      const neighbours = bodyIndexes
+        .flatMap((index) => [snake.body[index - 1], snake.body[index + 1]])
+        .filter((segment) => segment && (segment.x !== x || segment.y !== y));
       return {
         type: isHead ? "head" : "body",
         color: getSnakeColor(board.snakes, i, youId),
@@ -63,16 +68,17 @@ function getCellContent(board: Board, x: number, y: number, youId: string) {
         headEmoji: snake.headEmoji,
         team: snake.team,
         isKing: snake.isKing,
-        prevSegment,
-        nextSegment,
+        neighbours,
+        stackCount: bodyIndexes.length,
       };
     }
   }
   if (board.food.some((f) => f.x === x && f.y === y)) {
     return { type: "food" };
   }
-  if (board.hazards.some((h) => h.x === x && h.y === y)) {
-    return { type: "hazard" };
+  const hazardStack = board.hazards.filter((h) => h.x === x && h.y === y).length;
+  if (hazardStack > 0) {
+    return { type: "hazard", hazardStack };
   }
   return null;
 }
@@ -80,21 +86,18 @@ function getCellContent(board: Board, x: number, y: number, youId: string) {
 function getConnectors(
   x: number,
   y: number,
-  prevSegment: Coordinate | null,
-  nextSegment: Coordinate | null,
+  neighbours: Coordinate[],
   color: string,
   cellSize: number
 ) {
   const connectors: Array<{ direction: "left" | "right" | "up" | "down" }> = [];
-  const checkConnection = (seg: Coordinate | null) => {
-    if (!seg) return;
+  const checkConnection = (seg: Coordinate) => {
     if (seg.x < x) connectors.push({ direction: "left" });
     if (seg.x > x) connectors.push({ direction: "right" });
     if (seg.y > y) connectors.push({ direction: "up" });
     if (seg.y < y) connectors.push({ direction: "down" });
   };
-  checkConnection(prevSegment);
-  checkConnection(nextSegment);
+  neighbours.forEach(checkConnection);
 
   const connectorSize = Math.max(2, Math.floor(cellSize * 0.15));
 
@@ -141,12 +144,11 @@ export default function BoardPreview({ board, youId, cellSize = 20 }: Props) {
           const content = getCellContent(board, x, y, youId);
           const isSnake = content?.type === "head" || content?.type === "body";
           const connectors =
-            isSnake && content.prevSegment !== undefined
+            isSnake && content.neighbours !== undefined
               ? getConnectors(
                   x,
                   y,
-                  content.prevSegment,
-                  content.nextSegment ?? null,
+                  content.neighbours,
                   content.color ?? "#43b047",
                   cellSize
                 )
@@ -167,18 +169,36 @@ export default function BoardPreview({ board, youId, cellSize = 20 }: Props) {
                   ? content.type === "food"
                     ? "#22c55e"
                     : content.type === "hazard"
-                    ? "#dc2626"
+                    ? HAZARD_COLORS[Math.min(content.hazardStack ?? 1, HAZARD_COLORS.length) - 1]
                     : content.color
                   : "#1a1a2e",
               }}
             >
               {connectors}
+              {isSnake && content.stackCount !== undefined && content.stackCount > 1 && (
+                <span
+                  className="absolute -bottom-1 -right-1 z-20 rounded-full bg-night text-sand font-bold px-0.5"
+                  style={{ fontSize: `${Math.max(6, cellSize * 0.35)}px`, lineHeight: 1 }}
+                  title={`${content.stackCount} stacked segments`}
+                >
+                  ×{content.stackCount}
+                </span>
+              )}
               {content?.type === "food" && (
                 <span style={{ fontSize: `${Math.max(10, cellSize * 0.6)}px` }}>🎃</span>
               )}
               {content?.type === "hazard" && (
                 <span style={{ fontSize: `${Math.max(10, cellSize * 0.6)}px` }}>❕</span>
               )}
+              {content?.type === "hazard" && content.hazardStack !== undefined && content.hazardStack > 1 && (
+                <span
+                  className="absolute -bottom-1 -right-1 z-20 rounded-full bg-night text-sand font-bold px-0.5"
+                  style={{ fontSize: `${Math.max(6, cellSize * 0.35)}px`, lineHeight: 1 }}
+                  title={`${content.hazardStack} stacked hazards`}
+                >
+                  ×{content.hazardStack}
+                </span>
+              )}
               {content?.type === "head" && (
                 <div className="flex flex-col items-center justify-center z-10">
                   <span
@@ -0,0 +1,46 @@
+import type { Id } from "../../convex/_generated/dataModel";
+import type { BotSelection } from "../hooks/useBotSelection";
+
+type Props = {
+  selection: BotSelection;
+};
+
+export default function BotPicker({ selection }: Props) {
+  const { bots, bot, botId, customUrl, setBotId, setCustomUrl } = selection;
+
+  return (
+    <div className="flex-1 flex gap-2 min-w-0">
+      {bots.length > 0 && (
+        <select
+          value={botId ?? ""}
+          onChange={(e) => setBotId(e.target.value as Id<"bots"> | "")}
+          className="bg-night border border-sand/20 rounded px-2 py-2 text-sand focus:outline-none focus:border-lagoon"
+        >
+          <option value="">Custom URL</option>
+          {bots.map((item) => (
+            <option key={item._id} value={item._id}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+      )}
+      {bot ? (
+        <div
+          title={bot.notes}
+          className="flex-1 min-w-0 truncate bg-night border border-sand/10 rounded px-3 py-2 text-sand/60"
+        >
+          {bot.baseUrl}
+          {bot.timeoutMs !== undefined && <span className="text-sand/40"> | {bot.timeoutMs}ms</span>}
+        </div>
+      ) : (
+        <input
+          type="text"
+          value={customUrl}
+          onChange={(e) => setCustomUrl(e.target.value)}
+          placeholder="https://your-battlesnake.com"
+          className="flex-1 min-w-0 bg-night border border-sand/20 rounded px-3 py-2 text-sand focus:outline-none focus:border-lagoon"
+        />
+      )}
+    </div>
+  );
+}
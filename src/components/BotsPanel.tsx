@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+type Props = {
+  token: string;
+};
+
+type Header = { name: string; value: string };
+
+type Form = {
+  name: string;
+  baseUrl: string;
+  timeoutMs: string;
+  notes: string;
+  headers: Header[];
+};
+
+const EMPTY_FORM: Form = { name: "", baseUrl: "", timeoutMs: "", notes: "", headers: [] };
+
+const inputClass =
+  "bg-night border border-sand/20 rounded px-3 py-2 text-sand focus:outline-none focus:border-lagoon";
+
+function toForm(bot: Doc<"bots">): Form {
+  return {
+    name: bot.name,
+    baseUrl: bot.baseUrl,
+    timeoutMs: bot.timeoutMs !== undefined ? String(bot.timeoutMs) : "",
+    notes: bot.notes ?? "",
+    headers: bot.headers ?? [],
+  };
+}
+
+export default function BotsPanel({ token }: Props) {
+  const [form, setForm] = useState<Form>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<Id<"bots"> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const bots = useQuery(api.bots.listBots, { token });
+  const createBot = useMutation(api.bots.createBot);
+  const updateBot = useMutation(api.bots.updateBot);
+  const deleteBot = useMutation(api.bots.deleteBot);
+
+  const setHeader = (index: number, header: Partial<Header>) =>
+    setForm({
+      ...form,
+      headers: form.headers.map((item, i) => (i === index ? { ...item, ...header } : item)),
+    });
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    const fields = {
+      name: form.name,
+      baseUrl: form.baseUrl,
+      timeoutMs: form.timeoutMs.trim() ? Number(form.timeoutMs) : undefined,
+      notes: form.notes,
+      headers: form.headers.filter((header) => header.name.trim()),
+    };
+    try {
+      if (editingId) {
+        await updateBot({ token, botId: editingId, ...fields });
+      } else {
+        await createBot({ token, ...fields });
+      }
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save bot.");
+    }
+  };
+
+  const handleDelete = async (botId: Id<"bots">) => {
+    if (confirm("Delete this bot? Its past runs stay in your history.")) {
+      await deleteBot({ token, botId });
+      if (editingId === botId) {
+        resetForm();
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-ink border border-sand/20 rounded-lg p-4 space-y-3">
+        <h3 className="text-sand font-semibold">{editingId ? "Edit Bot" : "New Bot"}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Name"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={form.baseUrl}
+            onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+            placeholder="https://your-battlesnake.com"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            value={form.timeoutMs}
+            onChange={(e) => setForm({ ...form, timeoutMs: e.target.value })}
+            placeholder="Default timeout (ms, default 500)"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            placeholder="Notes"
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sand/60 text-sm">Headers sent with every request, e.g. for auth</p>
+          {form.headers.map((header, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                value={header.name}
+                onChange={(e) => setHeader(index, { name: e.target.value })}
+                placeholder="Authorization"
+                className={`w-48 ${inputClass}`}
+              />
+              <input
+                type="text"
+                value={header.value}
+                onChange={(e) => setHeader(index, { value: e.target.value })}
+                placeholder="Bearer ..."
+                className={`flex-1 ${inputClass}`}
+              />
+              <button
+                onClick={() => setForm({ ...form, headers: form.headers.filter((_, i) => i !== index) })}
+                className="text-sm px-3 py-1 bg-ember/20 text-ember rounded hover:bg-ember/30"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setForm({ ...form, headers: [...form.headers, { name: "", value: "" }] })}
+            className="text-sm px-3 py-1 bg-sand/10 text-sand rounded hover:bg-sand/20"
+          >
+            Add Header
+          </button>
+        </div>
+
+        {error && <p className="text-ember text-sm">{error}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={() => void handleSave()}
+            disabled={!form.name.trim() || !form.baseUrl.trim()}
+            className="bg-lagoon text-ink px-4 py-2 rounded hover:bg-lagoon/80 disabled:opacity-50"
+          >
+            {editingId ? "Save Bot" : "Add Bot"}
+          </button>
+          {editingId && (
+            <button onClick={resetForm} className="px-4 py-2 rounded text-sand/60 hover:text-sand">
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {bots && bots.length > 0 && (
+        <div className="space-y-2">
+          {bots.map((bot) => (
+            <div key={bot._id} className="bg-ink border border-sand/20 rounded-lg p-3 flex items-center justify-between">
+              <div className="min-w-0">
+                <span className="text-sand font-semibold">{bot.name}</span>
+                <span className="text-sand/40 text-sm ml-2">{bot.baseUrl}</span>
+                <p className="text-sand/40 text-xs">
+                  {bot.timeoutMs !== undefined ? `${bot.timeoutMs}ms timeout` : "Default timeout"}
+                  {bot.headers?.length ? ` | ${bot.headers.map((header) => header.name).join(", ")}` : ""}
+                  {bot.notes && ` | ${bot.notes}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setForm(toForm(bot));
+                    setEditingId(bot._id);
+                    setError(null);
+                  }}
+                  className="text-sm px-3 py-1 bg-sand/10 text-sand rounded hover:bg-sand/20"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => void handleDelete(bot._id)}
+                  className="text-sm px-3 py-1 bg-ember/20 text-ember rounded hover:bg-ember/30"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { parseBundle } from "../../convex/bundleFormat";
+
+type Props = {
+  token: string;
+  onClose: () => void;
+};
+
+type ImportSummary = {
+  imported: number;
+  duplicates: number;
+  skipped: { name: string; reason: string }[];
+};
+
+export default function BundleImportPanel({ token, onClose }: Props) {
+  const [status, setStatus] = useState<"private" | "pending">("private");
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [importing, setImporting] = useState(false);
+  const importBundle = useMutation(api.bundles.importBundle);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setSummary(null);
+    const parsed = parseBundle(await file.text());
+    if (!parsed.ok) {
+      setError(parsed.error);
+      return;
+    }
+    setImporting(true);
+    try {
+      setSummary(await importBundle({ token, bundle: parsed.bundle, status }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import bundle.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-ink border border-sand/20 rounded-lg p-4 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sand font-semibold">Import Test Bundle</h3>
+        <button onClick={onClose} className="text-sand/60 hover:text-sand text-sm">
+          Close
+        </button>
+      </div>
+      <div className="flex items-center gap-4 mb-3 text-sm">
+        <label className="flex items-center gap-2 text-sand/80">
+          <input
+            type="radio"
+            checked={status === "private"}
+            onChange={() => setStatus("private")}
+          />
+          Keep private
+        </label>
+        <label className="flex items-center gap-2 text-sand/80">
+          <input
+            type="radio"
+            checked={status === "pending"}
+            onChange={() => setStatus("pending")}
+          />
+          Submit for public review
+        </label>
+      </div>
+      <input
+        type="file"
+        accept="application/json,.json"
+        disabled={importing}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) void handleFile(file);
+        }}
+        className="text-sand/80 text-sm"
+      />
+      {importing && <p className="text-sand/60 text-sm mt-2">Importing...</p>}
+      {error && <p className="text-ember text-sm mt-2">{error}</p>}
+      {summary && (
+        <div className="mt-3 text-sm">
+          <p className="text-moss">
+            Imported {summary.imported} test{summary.imported === 1 ? "" : "s"}
+            {summary.duplicates > 0 && `, skipped ${summary.duplicates} already in the app`}.
+          </p>
+          {summary.skipped.length > 0 && (
+            <ul className="text-ember mt-1 space-y-0.5">
+              {summary.skipped.map((item, index) => (
+                <li key={index}>
+                  {item.name}: {item.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
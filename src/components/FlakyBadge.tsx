@@ -0,0 +1,19 @@
+import { isFlaky } from "../../convex/scoring";
+
+type Props = {
+  summary?: { runs: number; passes: number };
+};
+
+export default function FlakyBadge({ summary }: Props) {
+  if (!summary || !isFlaky(summary)) {
+    return null;
+  }
+  return (
+    <span
+      title={`Passed ${summary.passes}/${summary.runs} repeats`}
+      className="px-2 py-0.5 text-xs rounded bg-clay/20 text-clay border border-clay/50"
+    >
+      Flaky
+    </span>
+  );
+}
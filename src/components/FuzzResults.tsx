@@ -0,0 +1,47 @@
+type VariantResult = {
+  label: string;
+  expectedSafeMoves: string[];
+  move?: string | null;
+  passed: boolean;
+  error?: string;
+  responseTimeMs?: number;
+};
+
+type Props = {
+  seed: number;
+  original: VariantResult;
+  variants: VariantResult[];
+  onClose: () => void;
+};
+
+function describeVariant(result: VariantResult) {
+  const answer = result.error ?? `Move: ${result.move ?? "none"}`;
+  return `${answer} | Expected: ${result.expectedSafeMoves.join(", ") || "none"}`;
+}
+
+export default function FuzzResults({ seed, original, variants, onClose }: Props) {
+  const failures = variants.filter((variant) => !variant.passed);
+
+  return (
+    <div className="mt-2 p-2 rounded text-sm bg-night border border-sand/20">
+      <div className="flex items-center justify-between mb-1">
+        <span className={failures.length > 0 ? "text-ember" : "text-moss"}>
+          {variants.length - failures.length}/{variants.length} variants held
+          {!original.passed && <span className="text-clay"> (the original test fails too)</span>}
+        </span>
+        <button onClick={onClose} className="text-xs text-sand/60 hover:text-sand">
+          Close
+        </button>
+      </div>
+      <div className="space-y-0.5 text-xs">
+        {variants.map((variant) => (
+          <div key={variant.label} className={variant.passed ? "text-sand/60" : "text-ember"}>
+            {variant.passed ? "PASS" : "FAIL"} {variant.label}: {describeVariant(variant)}
+            {variant.responseTimeMs !== undefined && ` | ${variant.responseTimeMs}ms`}
+          </div>
+        ))}
+      </div>
+      <p className="text-sand/40 text-xs mt-1">Seed {seed}</p>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import type { BotInfo, LifecycleStep } from "../../convex/runner";
+
+type Props = {
+  steps: LifecycleStep[];
+  botInfo?: BotInfo;
+};
+
+const STEP_LABELS: Record<LifecycleStep["step"], string> = {
+  info: "GET /",
+  start: "/start",
+  move: "/move",
+  end: "/end",
+};
+
+export default function LifecycleSteps({ steps, botInfo }: Props) {
+  const details = botInfo
+    ? [
+        botInfo.author && `by ${botInfo.author}`,
+        botInfo.apiversion && `API v${botInfo.apiversion}`,
+        botInfo.version && `version ${botInfo.version}`,
+        botInfo.head && `head ${botInfo.head}`,
+        botInfo.tail && `tail ${botInfo.tail}`,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <div className="text-xs mt-1 space-y-0.5">
+      <div className="flex flex-wrap gap-2">
+        {steps.map((step) => (
+          <span
+            key={step.step}
+            title={step.error}
+            className={`px-1.5 py-0.5 rounded ${step.ok ? "bg-moss/20 text-moss" : "bg-ember/20 text-ember"}`}
+          >
+            {STEP_LABELS[step.step]} {step.status ?? (step.ok ? "" : "failed")}
+            {step.responseTimeMs !== undefined && ` ${step.responseTimeMs}ms`}
+          </span>
+        ))}
+      </div>
+      {details.length > 0 && (
+        <div className="flex items-center gap-2 text-sand/60">
+          {botInfo?.color && (
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: botInfo.color }} />
+          )}
+          {details.join(" | ")}
+        </div>
+      )}
+    </div>
+  );
+}
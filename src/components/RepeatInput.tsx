@@ -0,0 +1,23 @@
+import { MAX_REPEAT } from "../../convex/scoring";
+
+type Props = {
+  value: number;
+  onChange: (value: number) => void;
+};
+
+export default function RepeatInput({ value, onChange }: Props) {
+  return (
+    <label className="flex items-center gap-2 text-sand/60 text-xs mt-2">
+      Repeat each test
+      <input
+        type="number"
+        min={1}
+        max={MAX_REPEAT}
+        value={value}
+        onChange={(e) => onChange(Math.min(Math.max(Math.floor(Number(e.target.value)) || 1, 1), MAX_REPEAT))}
+        className="w-16 bg-night border border-sand/20 rounded px-2 py-0.5 text-sand focus:outline-none focus:border-lagoon"
+      />
+      times to spot flaky results
+    </label>
+  );
+}
@@ -0,0 +1,14 @@
+import type { RepeatSummary } from "../../convex/scoring";
+
+type Props = {
+  summary: RepeatSummary;
+};
+
+export default function RepeatResults({ summary }: Props) {
+  return (
+    <div className="text-xs text-sand/60 mt-1">
+      Passed {summary.passes}/{summary.runs} repeats | Flakiness {summary.flakiness.toFixed(2)} | Moves:{" "}
+      {summary.moves.map(({ move, count }) => `${move ?? "none"} x${count}`).join(", ")}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { rulesetName } from "../../convex/rulesets";
+
+type Props = {
+  game?: {
+    ruleset?: { name?: string; settings?: { hazardMap?: string; hazardDamagePerTurn?: number } };
+    map?: string;
+    timeout?: number;
+  };
+};
+
+export default function RulesetBadge({ game }: Props) {
+  const details = [
+    game?.map && `Map: ${game.map}`,
+    game?.ruleset?.settings?.hazardMap && `Hazard map: ${game.ruleset.settings.hazardMap}`,
+    game?.ruleset?.settings?.hazardDamagePerTurn !== undefined &&
+      `Hazard damage: ${game.ruleset.settings.hazardDamagePerTurn}`,
+    game?.timeout !== undefined && `Timeout: ${game.timeout}ms`,
+  ].filter(Boolean);
+  return (
+    <span
+      title={details.length > 0 ? details.join("\n") : undefined}
+      className="px-2 py-0.5 text-xs rounded bg-lagoon/20 text-lagoon"
+    >
+      {rulesetName(game)}
+    </span>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+type Props = {
+  token: string;
+  botUrl: string;
+  botId?: Id<"bots">;
+};
+
+type Target = { botId?: Id<"bots">; botUrl?: string; label: string };
+
+const CHANGE_LABELS = {
+  regression: "Regression",
+  fixed: "Fixed",
+};
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function RunHistory({ token, botUrl, botId }: Props) {
+  const [selected, setSelected] = useState<Target | null>(
+    botId ? { botId, label: "" } : botUrl.trim() ? { botUrl: botUrl.trim(), label: botUrl.trim() } : null
+  );
+  const [selectedTest, setSelectedTest] = useState<Id<"tests"> | null>(null);
+
+  const runTargets = useQuery(api.history.listRunTargets, { token });
+  const targets: Target[] = [
+    ...(runTargets?.bots ?? []).map((bot) => ({ botId: bot._id, label: bot.name })),
+    ...(runTargets?.urls ?? []).map((url) => ({ botUrl: url, label: url })),
+  ];
+  const isSelected = (target: Target) =>
+    target.botId ? target.botId === selected?.botId : !selected?.botId && target.botUrl === selected?.botUrl;
+  const selectedLabel = targets.find(isSelected)?.label ?? selected?.label;
+  const target = selected ? { botId: selected.botId, botUrl: selected.botUrl } : null;
+  const history = useQuery(api.history.getSuiteHistory, target ? { token, ...target } : "skip");
+  const testHistory = useQuery(
+    api.history.getTestHistory,
+    target && selectedTest ? { token, ...target, testId: selectedTest } : "skip"
+  );
+
+  const latest = history?.suites[history.suites.length - 1];
+  const changedTests = (change: "regression" | "fixed") =>
+    (latest?.results ?? [])
+      .filter((result) => result.change === change)
+      .map((result) => history?.tests.find((test) => test._id === result.testId)?.name ?? "Deleted test");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {targets.map((item) => (
+          <button
+            key={item.botId ?? item.botUrl}
+            onClick={() => {
+              setSelected(item);
+              setSelectedTest(null);
+            }}
+            title={item.botUrl}
+            className={`px-3 py-1 rounded text-sm truncate max-w-xs ${isSelected(item) ? "bg-lagoon text-ink" : "bg-ink text-sand border border-sand/20"}`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {!selected ? (
+        <p className="text-sand/60">Pick a bot above to see its run history.</p>
+      ) : history === undefined ? (
+        <p className="text-sand/60">Loading...</p>
+      ) : history.suites.length === 0 ? (
+        <p className="text-sand/60">No completed suite runs for {selectedLabel} yet.</p>
+      ) : (
+        <>
+          {latest && (latest.regressions > 0 || latest.fixed > 0) && (
+            <div className="bg-ink border border-sand/20 rounded-lg p-3 text-sm space-y-1">
+              {latest.regressions > 0 && (
+                <p className="text-ember">Regressions in the latest run: {changedTests("regression").join(", ")}</p>
+              )}
+              {latest.fixed > 0 && (
+                <p className="text-moss">Newly fixed: {changedTests("fixed").join(", ")}</p>
+              )}
+            </div>
+          )}
+
+          <div className="bg-ink border border-sand/20 rounded-lg p-3 overflow-x-auto">
+            <table className="text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left text-sand/60 font-normal pr-4 pb-2">Test</th>
+                  {history.suites.map(({ suiteRun }) => (
+                    <th key={suiteRun._id} className="text-sand/60 font-normal text-xs px-1 pb-2 whitespace-nowrap">
+                      {formatTime(suiteRun.startedAt)}
+                      <div className="text-sand/40">
+                        {suiteRun.passCount}/{suiteRun.totalTests}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {history.tests.map((test) => (
+                  <tr key={test._id}>
+                    <td className="pr-4 py-1">
+                      <button
+                        onClick={() => setSelectedTest(selectedTest === test._id ? null : test._id)}
+                        className={`text-left hover:underline ${selectedTest === test._id ? "text-lagoon" : "text-sand"}`}
+                      >
+                        {test.name}
+                      </button>
+                    </td>
+                    {history.suites.map(({ suiteRun, results }) => {
+                      const result = results.find((r) => r.testId === test._id);
+                      return (
+                        <td key={suiteRun._id} className="px-1 py-1 text-center">
+                          {result ? (
+                            <span
+                              title={result.change ? CHANGE_LABELS[result.change] : result.status}
+                              className={`inline-block w-4 h-4 rounded ${
+                                result.passed ? "bg-moss" : result.status === "completed" ? "bg-ember" : "bg-clay"
+                              } ${result.change === "regression" ? "ring-2 ring-ember ring-offset-1 ring-offset-ink" : ""} ${
+                                result.change === "fixed" ? "ring-2 ring-moss ring-offset-1 ring-offset-ink" : ""
+                              }`}
+                            />
+                          ) : (
+                            <span className="text-sand/20">-</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedTest && testHistory && (
+            <div className="bg-ink border border-sand/20 rounded-lg p-3">
+              <h3 className="text-sand font-semibold mb-2">
+                {history.tests.find((test) => test._id === selectedTest)?.name}
+              </h3>
+              {testHistory.length === 0 ? (
+                <p className="text-sand/60 text-sm">No finished runs yet.</p>
+              ) : (
+                <div className="space-y-1">
+                  {testHistory.map(({ run, passed, change }) => (
+                    <div key={run._id} className="flex items-center gap-3 text-sm">
+                      <span className="text-sand/40 w-32">{formatTime(run.startedAt)}</span>
+                      <span className={passed ? "text-moss" : "text-ember"}>
+                        {run.status === "completed" ? (passed ? "Pass" : "Fail") : run.status}
+                      </span>
+                      {run.move && <span className="text-sand/60">Move: {run.move}</span>}
+                      {run.responseTimeMs !== undefined && (
+                        <span className="text-sand/40">{run.responseTimeMs}ms</span>
+                      )}
+                      {change && (
+                        <span className={`px-2 py-0.5 text-xs rounded ${change === "regression" ? "bg-ember/20 text-ember" : "bg-moss/20 text-moss"}`}>
+                          {CHANGE_LABELS[change]}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
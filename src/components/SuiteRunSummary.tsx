@@ -0,0 +1,41 @@
+import type { Doc } from "../../convex/_generated/dataModel";
+
+type Props = {
+  suiteRun: Doc<"suiteRuns">;
+};
+
+export default function SuiteRunSummary({ suiteRun }: Props) {
+  const isRunning = suiteRun.status === "running";
+  const progress = suiteRun.totalTests > 0 ? (suiteRun.completedCount / suiteRun.totalTests) * 100 : 0;
+
+  return (
+    <div className="bg-ink border border-sand/20 rounded-lg p-3 mb-4">
+      <div className="flex items-center justify-between text-sm mb-2">
+        <span className="text-sand">
+          {isRunning ? "Suite running" : "Suite complete"}: {suiteRun.completedCount}/{suiteRun.totalTests}
+        </span>
+        <span className="text-sand/40 truncate ml-4">{suiteRun.botUrl}</span>
+      </div>
+      <div className="h-1.5 bg-night rounded overflow-hidden mb-2">
+        <div
+          className={`h-full ${isRunning ? "bg-lagoon" : "bg-moss"}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs">
+        <span className="text-moss">{suiteRun.passCount} passed</span>
+        <span className="text-ember">{suiteRun.failCount} failed</span>
+        {suiteRun.timeoutCount ? (
+          <span className="text-ember">({suiteRun.timeoutCount} timed out)</span>
+        ) : null}
+        <span className="text-clay">{suiteRun.errorCount} errors</span>
+        {suiteRun.p50LatencyMs !== undefined && (
+          <span className="text-sand/60">p50 {suiteRun.p50LatencyMs}ms</span>
+        )}
+        {suiteRun.p95LatencyMs !== undefined && (
+          <span className="text-sand/60">p95 {suiteRun.p95LatencyMs}ms</span>
+        )}
+      </div>
+    </div>
+  );
+}
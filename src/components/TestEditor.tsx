@@ -1,8 +1,24 @@
-import { useState } from "react";
-import { useAction, useQuery } from "convex/react";
+import { useEffect, useRef, useState } from "react";
+import type { Dispatch, PointerEvent, SetStateAction } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
 import { useAuth } from "../contexts/AuthContext";
+import { useUndoHistory } from "../hooks/useUndoHistory";
+import { MAX_SCENARIO_TURNS, SCENARIO_GOAL_LABELS } from "../../convex/scenario";
+import { DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS } from "../../convex/scoring";
+import { DEFAULT_HAZARD_DAMAGE_PER_TURN } from "../../convex/rules";
+import { validateBoard } from "../../convex/boardValidation";
+import { analyseMoves } from "../../convex/safeMoves";
+import { generateHazards, HAZARD_PRESET_LABELS, HAZARD_PRESETS } from "../../convex/hazardPresets";
+import { RULESET_LABELS, RULESET_PRESETS, RULESETS } from "../../convex/rulesets";
+import type { RulesetName, RulesetSettings } from "../../convex/rulesets";
+import type { HazardPreset } from "../../convex/hazardPresets";
+import type { MoveVerdict } from "../../convex/safeMoves";
+import { parseTestImport } from "../../convex/testImport";
+import { BOARD_TRANSFORM_LABELS, BOARD_TRANSFORMS, remapMove, transformTest } from "../../convex/variants";
+import type { BoardTransform } from "../../convex/variants";
+import type { ScenarioGoal, ScenarioScript } from "../../convex/scenario";
 
 type Coordinate = { x: number; y: number };
 type Snake = {
@@ -15,6 +31,7 @@ type Snake = {
   latency?: string;
   shout?: string;
   team?: string;
+  squad?: string;
   isKing?: boolean;
   headEmoji?: string;
   color?: string;
@@ -51,7 +68,12 @@ type TestData = {
   turn: number;
   youId: string;
   expectedSafeMoves: string[];
+  preferredMove?: string;
+  forbiddenMoves?: string[];
+  scenario?: ScenarioScript;
+  latencyBudgetMs?: number;
   makePrivate?: boolean;
+  parentTestId?: Id<"tests">;
 };
 
 type Props = {
@@ -61,9 +83,94 @@ type Props = {
   showMakePrivate?: boolean;
 };
 
+type Tool = "food" | "hazard" | "snake-head" | "snake-body" | "eraser";
+
+// Number keys pick tools in the order the buttons are shown.
+const TOOLS: Tool[] = ["food", "hazard", "snake-head", "snake-body", "eraser"];
+const TOOL_LABELS: Record<Tool, string> = {
+  food: "Food",
+  hazard: "Hazard",
+  "snake-head": "Snake Head",
+  "snake-body": "Snake Body",
+  eraser: "Eraser",
+};
+
+// Each stacked copy of a hazard deals its damage again; darker reds show more.
+const HAZARD_LEVELS = [1, 2, 3, 4];
+const HAZARD_COLORS = ["#dc2626", "#b91c1c", "#991b1b", "#7f1d1d"];
+
 const SNAKE_COLORS = ["#43b047", "#e55b3c", "#4285f4", "#f4b400", "#9c27b0", "#00bcd4"];
+const MOVES = ["up", "down", "left", "right"];
+const VERDICT_STYLES: Record<MoveVerdict, string> = {
+  safe: "text-moss",
+  "dead-end": "text-clay",
+  lethal: "text-ember",
+};
 const SNAKE_EMOJIS = ["🐍", "😎", "🔥", "💀", "🎯", "⚡", "🌟", "🦎", "🐉", "👑", "💎", "🎮"];
 
+// How a pointer drag on the board edits a snake: drawing a new one from an
+// empty cell, growing or shrinking it from either end, or moving it whole.
+type DragMode = "draw" | "head" | "tail" | "move";
+
+const sameCell = (a: Coordinate, b: Coordinate) => a.x === b.x && a.y === b.y;
+const isAdjacent = (a: Coordinate, b: Coordinate) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) === 1;
+
+// Cells from `from` (exclusive) to `to`, one step at a time, so a fast drag
+// that skips cells still lays down a connected path.
+function pathBetween(from: Coordinate, to: Coordinate): Coordinate[] {
+  const path: Coordinate[] = [];
+  let { x, y } = from;
+  while (x !== to.x || y !== to.y) {
+    if (x !== to.x) {
+      x += Math.sign(to.x - x);
+    } else {
+      y += Math.sign(to.y - y);
+    }
+    path.push({ x, y });
+  }
+  return path;
+}
+
+// Dragging an end back over its neighbour shrinks the snake and dragging it
+// to a free adjacent cell grows it. A stacked tail is unrolled first: the
+// head moves forward the way it would in a game, using up one stacked copy,
+// and a dragged tail pulls a copy out, so the length stays the same.
+function dragHead(body: Coordinate[], cell: Coordinate): Coordinate[] {
+  if (body.length > 1 && sameCell(body[1], cell) && !sameCell(body[0], body[1])) {
+    return body.slice(1);
+  }
+  if (!isAdjacent(body[0], cell) || body.some((segment) => sameCell(segment, cell))) {
+    return body;
+  }
+  const tailStacked = body.length > 1 && sameCell(body[body.length - 1], body[body.length - 2]);
+  return [cell, ...(tailStacked ? body.slice(0, -1) : body)];
+}
+
+function dragTail(body: Coordinate[], cell: Coordinate): Coordinate[] {
+  const tail = body[body.length - 1];
+  if (body.length > 1 && sameCell(body[body.length - 2], cell) && !sameCell(tail, cell)) {
+    return body.slice(0, -1);
+  }
+  if (!isAdjacent(tail, cell) || body.some((segment) => sameCell(segment, cell))) {
+    return body;
+  }
+  const tailStacked = body.length > 1 && sameCell(tail, body[body.length - 2]);
+  return [...(tailStacked ? body.slice(0, -1) : body), cell];
+}
+
+function moveBody(body: Coordinate[], dx: number, dy: number, width: number, height: number) {
+  const moved = body.map((segment) => ({ x: segment.x + dx, y: segment.y + dy }));
+  return moved.every((segment) => segment.x >= 0 && segment.y >= 0 && segment.x < width && segment.y < height)
+    ? moved
+    : null;
+}
+
+// A snake that just ate has its tail segment repeated.
+function justAte(snake: Snake) {
+  const { body } = snake;
+  return body.length > 1 && sameCell(body[body.length - 1], body[body.length - 2]);
+}
+
 function makeDefaultSnake(id: string, name: string, x: number): Snake {
   return {
     id,
@@ -82,27 +189,110 @@ function makeDefaultSnake(id: string, name: string, x: number): Snake {
 export default function TestEditor({ initialData, onSave, onCancel, showMakePrivate }: Props) {
   const [name, setName] = useState(initialData?.name ?? "");
   const [description, setDescription] = useState(initialData?.description ?? "");
-  const [turn, setTurn] = useState(initialData?.turn ?? 0);
-  const [boardWidth, setBoardWidth] = useState(initialData?.board?.width ?? 11);
-  const [boardHeight, setBoardHeight] = useState(initialData?.board?.height ?? 11);
-  const [food, setFood] = useState<Coordinate[]>(initialData?.board?.food ?? []);
-  const [hazards, setHazards] = useState<Coordinate[]>(initialData?.board?.hazards ?? []);
-  const [snakes, setSnakes] = useState<Snake[]>(
+  const [turn, setTurnState] = useState(initialData?.turn ?? 0);
+  const [boardWidth, setBoardWidthState] = useState(initialData?.board?.width ?? 11);
+  const [boardHeight, setBoardHeightState] = useState(initialData?.board?.height ?? 11);
+  const [food, setFoodState] = useState<Coordinate[]>(initialData?.board?.food ?? []);
+  const [hazards, setHazardsState] = useState<Coordinate[]>(initialData?.board?.hazards ?? []);
+  const [snakes, setSnakesState] = useState<Snake[]>(
     initialData?.board?.snakes ?? [makeDefaultSnake("snake-1", "You", 5)]
   );
-  const [youId, setYouId] = useState(initialData?.youId ?? "snake-1");
-  const [expectedSafeMoves, setExpectedSafeMoves] = useState<string[]>(
+  const [youId, setYouIdState] = useState(initialData?.youId ?? "snake-1");
+  const [game, setGameState] = useState<Game | undefined>(initialData?.game);
+  const [expectedSafeMoves, setExpectedSafeMovesState] = useState<string[]>(
     initialData?.expectedSafeMoves ?? []
   );
-  const [tool, setTool] = useState<"food" | "hazard" | "snake-head" | "snake-body" | "eraser">("food");
+  const [preferredMove, setPreferredMoveState] = useState<string | undefined>(initialData?.preferredMove);
+  const [forbiddenMoves, setForbiddenMovesState] = useState<string[]>(initialData?.forbiddenMoves ?? []);
+  const [latencyBudgetMs, setLatencyBudgetMsState] = useState<number | undefined>(initialData?.latencyBudgetMs);
+  const [scenarioEnabled, setScenarioEnabledState] = useState(Boolean(initialData?.scenario));
+  const [scenarioTurns, setScenarioTurnsState] = useState(initialData?.scenario?.turns ?? 5);
+  const [scenarioGoal, setScenarioGoalState] = useState<ScenarioGoal>(initialData?.scenario?.goal ?? "survive");
+  const [scriptedMoves, setScriptedMovesState] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (initialData?.scenario?.opponentMoves ?? []).map((script) => [script.snakeId, script.moves.join(" ")])
+    )
+  );
+  const [tool, setTool] = useState<Tool>("food");
   const [selectedSnakeIndex, setSelectedSnakeIndex] = useState(0);
   const [makePrivate, setMakePrivate] = useState(false);
   const [engineAnalysing, setEngineAnalysing] = useState(false);
   const [engineResult, setEngineResult] = useState<{ ok: boolean; error?: string; analysis?: unknown } | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const [variantTransforms, setVariantTransforms] = useState<BoardTransform[]>(BOARD_TRANSFORMS);
+  const [variantMessage, setVariantMessage] = useState<string | null>(null);
+  const [hazardLevel, setHazardLevel] = useState(1);
+  const [hazardPreset, setHazardPreset] = useState<HazardPreset>("royale");
+  const [hazardPresetTurn, setHazardPresetTurn] = useState(initialData?.turn ?? 0);
+
+  // Everything undo/redo covers: the board and the expectations, but not the
+  // name, description or which tool is selected.
+  const snapshot = {
+    turn,
+    boardWidth,
+    boardHeight,
+    food,
+    hazards,
+    snakes,
+    youId,
+    game,
+    expectedSafeMoves,
+    preferredMove,
+    forbiddenMoves,
+    latencyBudgetMs,
+    scenarioEnabled,
+    scenarioTurns,
+    scenarioGoal,
+    scriptedMoves,
+  };
+  const history = useUndoHistory(snapshot, (previous: typeof snapshot) => {
+    setTurnState(previous.turn);
+    setBoardWidthState(previous.boardWidth);
+    setBoardHeightState(previous.boardHeight);
+    setFoodState(previous.food);
+    setHazardsState(previous.hazards);
+    setSnakesState(previous.snakes);
+    setYouIdState(previous.youId);
+    setGameState(previous.game);
+    setExpectedSafeMovesState(previous.expectedSafeMoves);
+    setPreferredMoveState(previous.preferredMove);
+    setForbiddenMovesState(previous.forbiddenMoves);
+    setLatencyBudgetMsState(previous.latencyBudgetMs);
+    setScenarioEnabledState(previous.scenarioEnabled);
+    setScenarioTurnsState(previous.scenarioTurns);
+    setScenarioGoalState(previous.scenarioGoal);
+    setScriptedMovesState(previous.scriptedMoves);
+    setSelectedSnakeIndex(Math.min(selectedSnakeIndex, previous.snakes.length - 1));
+  });
+  const tracked =
+    <T,>(setState: Dispatch<SetStateAction<T>>) =>
+    (value: T) => {
+      history.record();
+      setState(value);
+    };
+  const setTurn = tracked(setTurnState);
+  const setBoardWidth = tracked(setBoardWidthState);
+  const setBoardHeight = tracked(setBoardHeightState);
+  const setFood = tracked(setFoodState);
+  const setHazards = tracked(setHazardsState);
+  const setSnakes = tracked(setSnakesState);
+  const setYouId = tracked(setYouIdState);
+  const setGame = tracked(setGameState);
+  const setExpectedSafeMoves = tracked(setExpectedSafeMovesState);
+  const setPreferredMove = tracked(setPreferredMoveState);
+  const setForbiddenMoves = tracked(setForbiddenMovesState);
+  const setLatencyBudgetMs = tracked(setLatencyBudgetMsState);
+  const setScenarioEnabled = tracked(setScenarioEnabledState);
+  const setScenarioTurns = tracked(setScenarioTurnsState);
+  const setScenarioGoal = tracked(setScenarioGoalState);
+  const setScriptedMoves = tracked(setScriptedMovesState);
 
   const { token } = useAuth();
   const engineAccess = useQuery(api.engine.checkEngineAccess, token ? { token } : "skip");
   const analyseWithEngine = useAction(api.engine.analyseWithEngine);
+  const createSymmetryVariants = useMutation(api.battlesnake.createSymmetryVariants);
 
   const handleCellClick = (x: number, y: number) => {
     if (tool === "food") {
@@ -113,12 +303,11 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
         setFood([...food, { x, y }]);
       }
     } else if (tool === "hazard") {
-      const exists = hazards.some((h) => h.x === x && h.y === y);
-      if (exists) {
-        setHazards(hazards.filter((h) => !(h.x === x && h.y === y)));
-      } else {
-        setHazards([...hazards, { x, y }]);
-      }
+      // Stacked hazards are the same coordinate repeated, as games send them.
+      // Clicking a cell already at the chosen level clears it.
+      const others = hazards.filter((h) => !(h.x === x && h.y === y));
+      const level = hazards.length - others.length;
+      setHazards(level === hazardLevel ? others : [...others, ...Array.from({ length: hazardLevel }, () => ({ x, y }))]);
     } else if (tool === "snake-head" && snakes[selectedSnakeIndex]) {
       const newSnakes = [...snakes];
       const snake = { ...newSnakes[selectedSnakeIndex] };
@@ -135,7 +324,11 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
       const newSnakes = [...snakes];
       const snake = { ...newSnakes[selectedSnakeIndex] };
       const inBody = snake.body.findIndex((b) => b.x === x && b.y === y);
-      if (inBody > 0) {
+      const tail = snake.body[snake.body.length - 1];
+      if (tail && sameCell(tail, { x, y })) {
+        // Clicking the tail stacks another segment on it, as after eating.
+        snake.body = [...snake.body, { x, y }];
+      } else if (inBody > 0) {
         snake.body = snake.body.filter((_, i) => i !== inBody);
       } else if (inBody === -1) {
         snake.body = [...snake.body, { x, y }];
@@ -174,6 +367,72 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
     setTool("snake-head");
   };
 
+  const dragRef = useRef<{ mode: DragMode; snakeIndex: number; last: Coordinate; moved: boolean } | null>(null);
+  // A drag ends in a click on the cell it started from; that click must not
+  // also run the tool.
+  const suppressClickRef = useRef(false);
+
+  const handleCellPointerDown = (e: PointerEvent<HTMLButtonElement>, x: number, y: number) => {
+    suppressClickRef.current = false;
+    if (tool !== "snake-head" && tool !== "snake-body") return;
+    // Touch pointers are captured by the pressed cell, which would hide the
+    // cells the drag passes over.
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    const cell = { x, y };
+    const selected = snakes[selectedSnakeIndex];
+    const snakeIndex = selected?.body.some((segment) => sameCell(segment, cell))
+      ? selectedSnakeIndex
+      : snakes.findIndex((snake) => snake.body.some((segment) => sameCell(segment, cell)));
+    if (snakeIndex === -1) {
+      if (tool === "snake-head" && selected) {
+        dragRef.current = { mode: "draw", snakeIndex: selectedSnakeIndex, last: cell, moved: false };
+      }
+      return;
+    }
+    const { body } = snakes[snakeIndex];
+    const mode = sameCell(body[0], cell) ? "head" : sameCell(body[body.length - 1], cell) ? "tail" : "move";
+    dragRef.current = { mode, snakeIndex, last: cell, moved: false };
+  };
+
+  const handleCellPointerEnter = (x: number, y: number) => {
+    const drag = dragRef.current;
+    const snake = drag && snakes[drag.snakeIndex];
+    if (!drag || !snake || sameCell(drag.last, { x, y })) return;
+    let body = drag.mode === "draw" && !drag.moved ? [drag.last] : snake.body;
+    if (drag.mode === "move") {
+      const moved = moveBody(body, x - drag.last.x, y - drag.last.y, boardWidth, boardHeight);
+      if (!moved) return;
+      body = moved;
+    } else {
+      for (const cell of pathBetween(drag.last, { x, y })) {
+        body = drag.mode === "head" ? dragHead(body, cell) : dragTail(body, cell);
+      }
+    }
+    // The whole drag is one undo step, so only its first change is recorded.
+    if (!drag.moved) {
+      history.record();
+      setSelectedSnakeIndex(drag.snakeIndex);
+    }
+    drag.moved = true;
+    drag.last = { x, y };
+    suppressClickRef.current = true;
+    const newSnakes = [...snakes];
+    newSnakes[drag.snakeIndex] = { ...snake, body, head: body[0], length: body.length };
+    setSnakesState(newSnakes);
+  };
+
+  useEffect(() => {
+    const endDrag = () => {
+      dragRef.current = null;
+    };
+    window.addEventListener("pointerup", endDrag);
+    window.addEventListener("pointercancel", endDrag);
+    return () => {
+      window.removeEventListener("pointerup", endDrag);
+      window.removeEventListener("pointercancel", endDrag);
+    };
+  }, []);
+
   const removeSnake = (index: number) => {
     if (snakes.length <= 1) return;
     const removed = snakes[index];
@@ -187,12 +446,183 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
     }
   };
 
+  const handleImport = () => {
+    const result = parseTestImport(importText);
+    if (!result.ok) {
+      setImportError(result.error);
+      return;
+    }
+    const imported = result.test;
+    setBoardWidth(imported.board.width);
+    setBoardHeight(imported.board.height);
+    setFood(imported.board.food);
+    setHazards(imported.board.hazards);
+    setSnakes(imported.board.snakes);
+    setYouId(imported.youId);
+    setTurn(imported.turn);
+    setGame(imported.game);
+    setSelectedSnakeIndex(0);
+    setScriptedMoves({});
+    setImportError(null);
+    setImportText("");
+    setShowImport(false);
+  };
+
+  // Flips or rotates everything in the editor, including the expected and
+  // scripted moves, so the test keeps its meaning.
+  const applyTransform = (transform: BoardTransform) => {
+    const transformed = transformTest(
+      {
+        board: { width: boardWidth, height: boardHeight, food, hazards, snakes },
+        youId,
+        expectedSafeMoves,
+        preferredMove,
+        forbiddenMoves,
+      },
+      transform
+    );
+    setBoardWidth(transformed.board.width);
+    setBoardHeight(transformed.board.height);
+    setFood(transformed.board.food);
+    setHazards(transformed.board.hazards);
+    setSnakes(transformed.board.snakes);
+    setExpectedSafeMoves(transformed.expectedSafeMoves);
+    setPreferredMove(transformed.preferredMove);
+    setForbiddenMoves(transformed.forbiddenMoves ?? []);
+    setScriptedMoves(
+      Object.fromEntries(
+        Object.entries(scriptedMoves).map(([snakeId, moves]) => [
+          snakeId,
+          moves
+            .split(/[\s,]+/)
+            .filter(Boolean)
+            .map((move) => remapMove(move, transform))
+            .join(" "),
+        ])
+      )
+    );
+  };
+
+  // A preset replaces the ruleset's settings but keeps a hazard map the board
+  // was already set up for, unless the preset brings its own.
+  const applyRuleset = (name: RulesetName | "") => {
+    if (!name) {
+      setGame(game && { ...game, ruleset: undefined });
+      return;
+    }
+    const preset = RULESET_PRESETS[name];
+    setGame({
+      ...game,
+      ruleset: {
+        ...game?.ruleset,
+        name,
+        settings: {
+          ...preset.settings,
+          hazardMap: preset.settings.hazardMap ?? game?.ruleset?.settings?.hazardMap,
+        },
+      },
+      map: preset.map,
+    });
+  };
+
+  const updateRulesetSettings = (changes: RulesetSettings) => {
+    setGame({
+      ...game,
+      ruleset: { ...game?.ruleset, settings: { ...game?.ruleset?.settings, ...changes } },
+    });
+  };
+
+  const optionalNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+  // Replaces the painted hazards and points the ruleset at the matching map.
+  const applyHazardPreset = () => {
+    const layout = generateHazards(hazardPreset, { width: boardWidth, height: boardHeight }, hazardPresetTurn);
+    setHazards(layout.hazards);
+    setGame({
+      ...game,
+      ruleset: {
+        ...game?.ruleset,
+        settings: {
+          ...game?.ruleset?.settings,
+          hazardMap: layout.hazardMap,
+          hazardDamagePerTurn: layout.hazardDamagePerTurn,
+        },
+      },
+    });
+  };
+
+  const handleCreateVariants = async () => {
+    if (!token || !initialData?._id) return;
+    setVariantMessage(null);
+    try {
+      const { created, skipped } = await createSymmetryVariants({
+        token,
+        testId: initialData._id,
+        transforms: variantTransforms,
+      });
+      setVariantMessage(
+        `Saved ${created} private variant${created === 1 ? "" : "s"}${skipped > 0 ? `, ${skipped} already existed` : ""}.`
+      );
+    } catch (err) {
+      setVariantMessage(err instanceof Error ? err.message : "Failed to create variants.");
+    }
+  };
+
+  const toggleSafeMove = (move: string) => {
+    if (expectedSafeMoves.includes(move)) {
+      setExpectedSafeMoves(expectedSafeMoves.filter((m) => m !== move));
+      if (preferredMove === move) {
+        setPreferredMove(undefined);
+      }
+    } else {
+      setExpectedSafeMoves([...expectedSafeMoves, move]);
+      setForbiddenMoves(forbiddenMoves.filter((m) => m !== move));
+    }
+  };
+
+  const toggleForbiddenMove = (move: string) => {
+    if (forbiddenMoves.includes(move)) {
+      setForbiddenMoves(forbiddenMoves.filter((m) => m !== move));
+    } else {
+      setForbiddenMoves([...forbiddenMoves, move]);
+    }
+  };
+
+  // Unplaced snakes are reported by handleSubmit, so only placed ones are checked here.
+  const boardIssues = validateBoard({
+    width: boardWidth,
+    height: boardHeight,
+    food,
+    hazards,
+    snakes: snakes.filter((s) => s.body.length > 0),
+  });
+  const cellIssues = (x: number, y: number) =>
+    boardIssues.filter((issue) => issue.cells.some((cell) => cell.x === x && cell.y === y));
+  // The oracle needs a board it can trust, so it waits until the issues are fixed.
+  const moveAnalysis =
+    boardIssues.length === 0
+      ? analyseMoves({
+          board: { width: boardWidth, height: boardHeight, food, hazards, snakes: snakes.filter((s) => s.body.length > 0) },
+          youId,
+          game,
+        })
+      : [];
+  const suggestedMoves = moveAnalysis.filter((analysis) => analysis.verdict === "safe").map((analysis) => analysis.move);
+
+  const applySuggestedMoves = () => {
+    setExpectedSafeMoves(suggestedMoves);
+    setForbiddenMoves(forbiddenMoves.filter((m) => !suggestedMoves.includes(m)));
+    if (preferredMove && !suggestedMoves.includes(preferredMove)) {
+      setPreferredMove(undefined);
+    }
+  };
+
   const handleSubmit = () => {
     if (!name.trim()) {
       alert("Please enter a test name");
       return;
     }
-    if (expectedSafeMoves.length === 0) {
+    if (!scenarioEnabled && expectedSafeMoves.length === 0) {
       alert("Please select at least one expected safe move");
       return;
     }
@@ -206,6 +636,10 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
       alert("Please place your snake (the one marked as 'You') on the board");
       return;
     }
+    if (boardIssues.length > 0) {
+      alert(`Please fix the board first: ${boardIssues[0].message}`);
+      return;
+    }
     onSave({
       name,
       description: description || undefined,
@@ -216,9 +650,26 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
         hazards,
         snakes,
       },
+      game,
       turn,
       youId,
       expectedSafeMoves,
+      preferredMove,
+      forbiddenMoves: forbiddenMoves.length > 0 ? forbiddenMoves : undefined,
+      scenario: scenarioEnabled
+        ? {
+            turns: scenarioTurns,
+            opponentMoves: snakes
+              .filter((s) => s.id !== youId)
+              .map((s) => ({
+                snakeId: s.id,
+                moves: (scriptedMoves[s.id] ?? "").split(/[\s,]+/).filter(Boolean),
+              }))
+              .filter((script) => script.moves.length > 0),
+            goal: scenarioGoal === "survive" ? undefined : scenarioGoal,
+          }
+        : undefined,
+      latencyBudgetMs,
       makePrivate: showMakePrivate ? makePrivate : undefined,
     });
   };
@@ -278,17 +729,19 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
   const getCellContent = (x: number, y: number) => {
     for (let i = 0; i < snakes.length; i++) {
       const snake = snakes[i];
-      const bodyIndex = snake.body.findIndex((b) => b.x === x && b.y === y);
-      if (bodyIndex !== -1) {
-        const isHead = bodyIndex === 0;
-        const prevSegment = bodyIndex > 0 ? snake.body[bodyIndex - 1] : null;
-        const nextSegment = bodyIndex < snake.body.length - 1 ? snake.body[bodyIndex + 1] : null;
+      const bodyIndexes = snake.body.flatMap((b, index) => (b.x === x && b.y === y ? [index] : []));
+      if (bodyIndexes.length > 0) {
+        const isHead = bodyIndexes[0] === 0;
+        const neighbours = bodyIndexes
+          .flatMap((index) => [snake.body[index - 1], snake.body[index + 1]])
+          .filter((segment) => segment && !sameCell(segment, { x, y }));
         return {
           type: isHead ? "head" : "body",
           color: getSnakeColor(i),
           isYou: snake.id === youId,
-          prevSegment,
-          nextSegment,
+          neighbours,
+          stackCount: bodyIndexes.length,
+          isTail: bodyIndexes.includes(snake.body.length - 1),
           health: snake.health,
           headEmoji: snake.headEmoji,
         };
@@ -297,23 +750,22 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
     if (food.some((f) => f.x === x && f.y === y)) {
       return { type: "food" };
     }
-    if (hazards.some((h) => h.x === x && h.y === y)) {
-      return { type: "hazard" };
+    const hazardStack = hazards.filter((h) => h.x === x && h.y === y).length;
+    if (hazardStack > 0) {
+      return { type: "hazard", hazardStack };
     }
     return null;
   };
 
-  const getConnectors = (x: number, y: number, prevSegment: Coordinate | null, nextSegment: Coordinate | null, color: string) => {
+  const getConnectors = (x: number, y: number, neighbours: Coordinate[], color: string) => {
     const connectors: Array<{ direction: "left" | "right" | "up" | "down" }> = [];
-    const checkConnection = (seg: Coordinate | null) => {
-      if (!seg) return;
+    const checkConnection = (seg: Coordinate) => {
       if (seg.x < x) connectors.push({ direction: "left" });
       if (seg.x > x) connectors.push({ direction: "right" });
       if (seg.y > y) connectors.push({ direction: "up" });
       if (seg.y < y) connectors.push({ direction: "down" });
     };
-    checkConnection(prevSegment);
-    checkConnection(nextSegment);
+    neighbours.forEach(checkConnection);
     return connectors.map((c, i) => {
       const style: React.CSSProperties = {
         position: "absolute",
@@ -344,12 +796,73 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
     });
   };
 
+  // Shortcuts are ignored while typing so form fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) || target.isContentEditable)) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (e.ctrlKey || e.metaKey) {
+        if (key === "z" && !e.shiftKey) {
+          e.preventDefault();
+          history.undo();
+        } else if (key === "y" || (key === "z" && e.shiftKey)) {
+          e.preventDefault();
+          history.redo();
+        }
+        return;
+      }
+      if (e.altKey) return;
+      const toolIndex = Number(key) - 1;
+      if (Number.isInteger(toolIndex) && TOOLS[toolIndex]) {
+        setTool(TOOLS[toolIndex]);
+      } else if (key === "[" || key === "]") {
+        const step = key === "]" ? 1 : snakes.length - 1;
+        setSelectedSnakeIndex((selectedSnakeIndex + step) % snakes.length);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
   return (
     <div className="bg-ink border border-sand/20 rounded-lg p-6">
       <h2 className="text-xl font-bold text-sand mb-4">
         {initialData?._id ? "Edit Test" : "Create Test"}
       </h2>
 
+      <div className="mb-4">
+        <button
+          onClick={() => setShowImport(!showImport)}
+          className="text-sm px-3 py-1 bg-sand/10 text-sand rounded hover:bg-sand/20"
+        >
+          {showImport ? "Hide Import" : "Import JSON"}
+        </button>
+        {showImport && (
+          <div className="mt-2">
+            <textarea
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              className="w-full bg-night border border-sand/20 rounded px-3 py-2 text-sand text-xs font-mono focus:outline-none focus:border-lagoon"
+              placeholder="Paste a /move request body or an engine frame (optionally with its Game)"
+              rows={6}
+            />
+            <div className="flex items-center gap-2 mt-1">
+              <button
+                onClick={handleImport}
+                disabled={!importText.trim()}
+                className="text-sm px-3 py-1 bg-lagoon text-ink rounded disabled:opacity-50"
+              >
+                Fill Editor
+              </button>
+              {importError && <span className="text-ember text-sm">{importError}</span>}
+            </div>
+          </div>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div>
           <div className="mb-4">
@@ -404,19 +917,251 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
             </div>
           </div>
 
+          <div className="mb-4">
+            <label className="block text-sand/80 text-sm mb-1">Game Settings</label>
+            <div className="bg-night/50 p-2 rounded border border-sand/10 space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sand/60 text-xs">
+                  Ruleset
+                  <select
+                    value={game?.ruleset?.name ?? ""}
+                    onChange={(e) => applyRuleset(e.target.value as RulesetName | "")}
+                    className="w-full mt-1 bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+                  >
+                    <option value="">Not set (standard)</option>
+                    {RULESETS.map((name) => (
+                      <option key={name} value={name}>
+                        {RULESET_LABELS[name]}
+                      </option>
+                    ))}
+                    {game?.ruleset?.name && !RULESETS.includes(game.ruleset.name as RulesetName) && (
+                      <option value={game.ruleset.name}>{game.ruleset.name}</option>
+                    )}
+                  </select>
+                </label>
+                <label className="text-sand/60 text-xs">
+                  Version
+                  <input
+                    type="text"
+                    value={game?.ruleset?.version ?? ""}
+                    onChange={(e) => setGame({ ...game, ruleset: { ...game?.ruleset, version: e.target.value || undefined } })}
+                    placeholder="e.g. v1.2.3"
+                    className="w-full mt-1 bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+                  />
+                </label>
+                <label className="text-sand/60 text-xs">
+                  Food spawn chance (%)
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={game?.ruleset?.settings?.foodSpawnChance ?? ""}
+                    onChange={(e) => updateRulesetSettings({ foodSpawnChance: optionalNumber(e.target.value) })}
+                    className="w-full mt-1 bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+                  />
+                </label>
+                <label className="text-sand/60 text-xs">
+                  Minimum food
+                  <input
+                    type="number"
+                    min={0}
+                    value={game?.ruleset?.settings?.minimumFood ?? ""}
+                    onChange={(e) => updateRulesetSettings({ minimumFood: optionalNumber(e.target.value) })}
+                    className="w-full mt-1 bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+                  />
+                </label>
+                <label className="text-sand/60 text-xs">
+                  Hazard damage per turn
+                  <input
+                    type="number"
+                    min={0}
+                    value={game?.ruleset?.settings?.hazardDamagePerTurn ?? ""}
+                    onChange={(e) => updateRulesetSettings({ hazardDamagePerTurn: optionalNumber(e.target.value) })}
+                    placeholder={String(DEFAULT_HAZARD_DAMAGE_PER_TURN)}
+                    className="w-full mt-1 bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+                  />
+                </label>
+                <label className="text-sand/60 text-xs">
+                  Hazard map
+                  <input
+                    type="text"
+                    value={game?.ruleset?.settings?.hazardMap ?? ""}
+                    onChange={(e) => updateRulesetSettings({ hazardMap: e.target.value || undefined })}
+                    className="w-full mt-1 bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+                  />
+                </label>
+                <label className="text-sand/60 text-xs">
+                  Map
+                  <input
+                    type="text"
+                    value={game?.map ?? ""}
+                    onChange={(e) => setGame({ ...game, map: e.target.value || undefined })}
+                    placeholder="standard"
+                    className="w-full mt-1 bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+                  />
+                </label>
+                <label className="text-sand/60 text-xs">
+                  Timeout (ms)
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_TIMEOUT_MS}
+                    value={game?.timeout ?? ""}
+                    onChange={(e) => setGame({ ...game, timeout: optionalNumber(e.target.value) })}
+                    placeholder={String(DEFAULT_TIMEOUT_MS)}
+                    className="w-full mt-1 bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+                  />
+                </label>
+              </div>
+              <p className="text-sand/40 text-xs">
+                Sent to the bot as the request's <code>game</code>. Unset fields fall back to the standard ruleset.
+              </p>
+              {game?.ruleset?.name === "squad" && (
+                <p className="text-clay text-xs">
+                  Squad rules are not simulated: move suggestions and scenario replays treat squadmates as opponents.
+                </p>
+              )}
+            </div>
+          </div>
+
           <div className="mb-4">
             <label className="block text-sand/80 text-sm mb-1">Tool</label>
             <div className="flex flex-wrap gap-2">
-              {(["food", "hazard", "snake-head", "snake-body", "eraser"] as const).map((t) => (
+              {TOOLS.map((t, index) => (
                 <button
                   key={t}
                   onClick={() => setTool(t)}
+                  title={`Shortcut: ${index + 1}`}
                   className={`px-3 py-1 rounded text-sm ${tool === t ? "bg-lagoon text-ink" : "bg-sand/10 text-sand"}`}
                 >
-                  {t === "food" ? "Food" : t === "hazard" ? "Hazard" : t === "snake-head" ? "Snake Head" : t === "snake-body" ? "Snake Body" : "Eraser"}
+                  {TOOL_LABELS[t]}
+                </button>
+              ))}
+              <button
+                onClick={history.undo}
+                disabled={!history.canUndo}
+                title="Ctrl+Z"
+                className="px-3 py-1 rounded text-sm bg-sand/10 text-sand hover:bg-sand/20 disabled:opacity-50"
+              >
+                Undo
+              </button>
+              <button
+                onClick={history.redo}
+                disabled={!history.canRedo}
+                title="Ctrl+Shift+Z or Ctrl+Y"
+                className="px-3 py-1 rounded text-sm bg-sand/10 text-sand hover:bg-sand/20 disabled:opacity-50"
+              >
+                Redo
+              </button>
+            </div>
+            {tool === "hazard" && (
+              <div className="flex items-center gap-2 mt-2">
+                <span className="text-sand/60 text-xs">Hazard stack:</span>
+                {HAZARD_LEVELS.map((level) => (
+                  <button
+                    key={level}
+                    onClick={() => setHazardLevel(level)}
+                    className={`px-2 py-0.5 rounded text-xs ${hazardLevel === level ? "bg-ember text-ink" : "bg-sand/10 text-sand"}`}
+                  >
+                    ×{level}
+                  </button>
+                ))}
+                <span className="text-sand/40 text-xs">
+                  {hazardLevel * (game?.ruleset?.settings?.hazardDamagePerTurn ?? DEFAULT_HAZARD_DAMAGE_PER_TURN)} damage per turn
+                </span>
+              </div>
+            )}
+            <p className="text-sand/40 text-xs mt-1">
+              Keys 1-5 pick a tool, [ and ] cycle the selected snake, Ctrl+Z / Ctrl+Shift+Z undo and redo.
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sand/80 text-sm mb-1">Hazard Presets</label>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={hazardPreset}
+                onChange={(e) => setHazardPreset(e.target.value as HazardPreset)}
+                className="bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+              >
+                {HAZARD_PRESETS.map((preset) => (
+                  <option key={preset} value={preset}>
+                    {HAZARD_PRESET_LABELS[preset]}
+                  </option>
+                ))}
+              </select>
+              {hazardPreset === "royale" && (
+                <label className="flex items-center gap-1 text-sand/60 text-xs">
+                  at turn
+                  <input
+                    type="number"
+                    min={0}
+                    value={hazardPresetTurn}
+                    onChange={(e) => setHazardPresetTurn(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-16 bg-night border border-sand/20 rounded px-2 py-1 text-sand text-sm"
+                  />
+                </label>
+              )}
+              <button
+                onClick={applyHazardPreset}
+                className="px-3 py-1 rounded text-sm bg-sand/10 text-sand hover:bg-sand/20"
+              >
+                Apply
+              </button>
+            </div>
+            <p className="text-sand/40 text-xs mt-1">
+              Replaces the hazards for this board size and sets the ruleset's hazard map and damage.
+              {game?.ruleset?.settings?.hazardMap &&
+                ` Current map: ${game.ruleset.settings.hazardMap}, ${game.ruleset.settings.hazardDamagePerTurn ?? "default"} damage.`}
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sand/80 text-sm mb-1">Symmetry</label>
+            <div className="flex flex-wrap gap-2">
+              {BOARD_TRANSFORMS.map((transform) => (
+                <button
+                  key={transform}
+                  onClick={() => applyTransform(transform)}
+                  className="px-3 py-1 rounded text-sm bg-sand/10 text-sand hover:bg-sand/20"
+                >
+                  {BOARD_TRANSFORM_LABELS[transform]}
                 </button>
               ))}
             </div>
+            {token && initialData?._id && !initialData.parentTestId && (
+              <div className="mt-2 p-2 bg-night/50 rounded border border-sand/10">
+                <p className="text-sand/60 text-xs mb-1">Save copies of the saved test as linked private variants:</p>
+                <div className="flex flex-wrap gap-3 mb-2">
+                  {BOARD_TRANSFORMS.map((transform) => (
+                    <label key={transform} className="flex items-center gap-1 text-sand/80 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={variantTransforms.includes(transform)}
+                        onChange={(e) =>
+                          setVariantTransforms(
+                            e.target.checked
+                              ? [...variantTransforms, transform]
+                              : variantTransforms.filter((item) => item !== transform)
+                          )
+                        }
+                      />
+                      {BOARD_TRANSFORM_LABELS[transform]}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => void handleCreateVariants()}
+                    disabled={variantTransforms.length === 0}
+                    className="text-sm px-3 py-1 bg-lagoon text-ink rounded disabled:opacity-50"
+                  >
+                    Save Variants
+                  </button>
+                  {variantMessage && <span className="text-sand/60 text-xs">{variantMessage}</span>}
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="mb-4">
@@ -496,6 +1241,31 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
                       }}
                       className="w-4 h-4 rounded border-sand/20 bg-night text-lagoon focus:ring-lagoon"
                     />
+                    {snake.body.length > 0 && (
+                      <>
+                        <label className="text-sand/60 text-xs ml-2" title="Stacks a copy of the tail and fills health">
+                          Just ate:
+                        </label>
+                        <input
+                          type="checkbox"
+                          checked={justAte(snake)}
+                          onChange={(e) => {
+                            const newSnakes = [...snakes];
+                            const body = e.target.checked
+                              ? [...snake.body, snake.body[snake.body.length - 1]]
+                              : snake.body.slice(0, -1);
+                            newSnakes[i] = {
+                              ...snake,
+                              body,
+                              length: body.length,
+                              health: e.target.checked ? 100 : snake.health,
+                            };
+                            setSnakes(newSnakes);
+                          }}
+                          className="w-4 h-4 rounded border-sand/20 bg-night text-lagoon focus:ring-lagoon"
+                        />
+                      </>
+                    )}
                   </div>
                   <div className="flex items-center gap-2 mt-2">
                     <label className="text-sand/60 text-xs">Color:</label>
@@ -556,22 +1326,144 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
           <div className="mb-4">
             <label className="block text-sand/80 text-sm mb-1">Expected Safe Moves</label>
             <div className="flex gap-2">
-              {["up", "down", "left", "right"].map((move) => (
+              {MOVES.map((move) => {
+                const analysis = moveAnalysis.find((a) => a.move === move);
+                return (
+                  <div key={move} className="flex flex-col items-center">
+                    <button
+                      onClick={() => toggleSafeMove(move)}
+                      title={analysis?.reason}
+                      className={`px-3 py-1 rounded text-sm ${expectedSafeMoves.includes(move) ? "bg-moss text-ink" : "bg-sand/10 text-sand"}`}
+                    >
+                      {move}
+                    </button>
+                    {analysis && (
+                      <span className={`text-[10px] mt-0.5 ${VERDICT_STYLES[analysis.verdict]}`} title={analysis.reason}>
+                        {analysis.verdict}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {moveAnalysis.length > 0 && (
+              <div className="flex items-center gap-2 mt-1">
+                <p className="text-sand/40 text-xs">
+                  Oracle suggests: {suggestedMoves.length > 0 ? suggestedMoves.join(", ") : "no safe moves"}
+                </p>
+                {suggestedMoves.length > 0 &&
+                  (suggestedMoves.length !== expectedSafeMoves.length ||
+                    suggestedMoves.some((move) => !expectedSafeMoves.includes(move))) && (
+                    <button onClick={applySuggestedMoves} className="text-xs text-lagoon hover:underline">
+                      Use suggestions
+                    </button>
+                  )}
+              </div>
+            )}
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sand/80 text-sm mb-1">Preferred Move (optional)</label>
+            <div className="flex gap-2">
+              {expectedSafeMoves.map((move) => (
                 <button
                   key={move}
-                  onClick={() => {
-                    if (expectedSafeMoves.includes(move)) {
-                      setExpectedSafeMoves(expectedSafeMoves.filter((m) => m !== move));
-                    } else {
-                      setExpectedSafeMoves([...expectedSafeMoves, move]);
-                    }
-                  }}
-                  className={`px-3 py-1 rounded text-sm ${expectedSafeMoves.includes(move) ? "bg-moss text-ink" : "bg-sand/10 text-sand"}`}
+                  onClick={() => setPreferredMove(preferredMove === move ? undefined : move)}
+                  className={`px-3 py-1 rounded text-sm ${preferredMove === move ? "bg-lagoon text-ink" : "bg-sand/10 text-sand"}`}
                 >
                   {move}
                 </button>
               ))}
             </div>
+            <p className="text-sand/40 text-xs mt-1">
+              {preferredMove
+                ? "The preferred move scores full credit; other safe moves score partial credit."
+                : "Without a preferred move, every safe move scores full credit."}
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sand/80 text-sm mb-1">Forbidden Moves (optional)</label>
+            <div className="flex gap-2">
+              {MOVES.filter((move) => !expectedSafeMoves.includes(move)).map((move) => (
+                <button
+                  key={move}
+                  onClick={() => toggleForbiddenMove(move)}
+                  className={`px-3 py-1 rounded text-sm ${forbiddenMoves.includes(move) ? "bg-ember text-ink" : "bg-sand/10 text-sand"}`}
+                >
+                  {move}
+                </button>
+              ))}
+            </div>
+            <p className="text-sand/40 text-xs mt-1">Forbidden moves count as a hard fail.</p>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sand/80 text-sm mb-1">Latency Budget in ms (optional)</label>
+            <input
+              type="number"
+              value={latencyBudgetMs ?? ""}
+              onChange={(e) => setLatencyBudgetMs(parseInt(e.target.value) || undefined)}
+              placeholder={`Game timeout (${game?.timeout ?? DEFAULT_TIMEOUT_MS}ms)`}
+              className="w-full bg-night border border-sand/20 rounded px-3 py-2 text-sand focus:outline-none focus:border-lagoon"
+            />
+            <p className="text-sand/40 text-xs mt-1">
+              Requests are aborted at the game timeout. A slower response than the budget also counts as a timeout.
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <label className="flex items-center gap-2 text-sand/80 text-sm mb-1">
+              <input
+                type="checkbox"
+                checked={scenarioEnabled}
+                onChange={(e) => setScenarioEnabled(e.target.checked)}
+                className="w-4 h-4 rounded border-sand/20 bg-night text-lagoon focus:ring-lagoon"
+              />
+              Scenario test (survive several turns)
+            </label>
+            {scenarioEnabled && (
+              <div className="space-y-2 mt-2">
+                <div>
+                  <label className="block text-sand/60 text-xs mb-1">Goal</label>
+                  <div className="flex gap-2">
+                    {(Object.keys(SCENARIO_GOAL_LABELS) as ScenarioGoal[]).map((goal) => (
+                      <button
+                        key={goal}
+                        onClick={() => setScenarioGoal(goal)}
+                        className={`px-3 py-1 rounded text-sm ${scenarioGoal === goal ? "bg-lagoon text-ink" : "bg-sand/10 text-sand"}`}
+                      >
+                        {SCENARIO_GOAL_LABELS[goal]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sand/60 text-xs mb-1">Turns (max {MAX_SCENARIO_TURNS})</label>
+                  <input
+                    type="number"
+                    value={scenarioTurns}
+                    onChange={(e) => setScenarioTurns(Math.max(1, Math.min(MAX_SCENARIO_TURNS, parseInt(e.target.value) || 1)))}
+                    className="w-full bg-night border border-sand/20 rounded px-3 py-2 text-sand focus:outline-none focus:border-lagoon"
+                  />
+                </div>
+                {snakes.filter((s) => s.id !== youId).map((s) => (
+                  <div key={s.id}>
+                    <label className="block text-sand/60 text-xs mb-1">{s.name} moves</label>
+                    <input
+                      type="text"
+                      value={scriptedMoves[s.id] ?? ""}
+                      onChange={(e) => setScriptedMoves({ ...scriptedMoves, [s.id]: e.target.value })}
+                      placeholder="up up left"
+                      className="w-full bg-night border border-sand/20 rounded px-3 py-2 text-sand text-sm focus:outline-none focus:border-lagoon"
+                    />
+                  </div>
+                ))}
+                <p className="text-sand/40 text-xs">
+                  Opponents without a scripted move keep heading the way they face. Boards with a king use king snek rules: teammates are eliminated with their king.
+                </p>
+              </div>
+            )}
           </div>
 
           <div className="flex gap-2 items-center flex-wrap">
@@ -670,7 +1562,7 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
         <div>
           <label className="block text-sand/80 text-sm mb-1">Board Preview</label>
           <div
-            className="inline-grid gap-1 bg-night p-2 rounded"
+            className="inline-grid gap-1 bg-night p-2 rounded touch-none select-none"
             style={{ gridTemplateColumns: `repeat(${boardWidth}, 1fr)` }}
           >
             {Array.from({ length: boardHeight }).map((_, row) =>
@@ -679,20 +1571,30 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
                 const x = col;
                 const content = getCellContent(x, y);
                 const isSnake = content?.type === "head" || content?.type === "body";
-                const connectors = isSnake && content.prevSegment !== undefined
-                  ? getConnectors(x, y, content.prevSegment, content.nextSegment ?? null, content.color ?? "#43b047")
+                const connectors = isSnake && content.neighbours !== undefined
+                  ? getConnectors(x, y, content.neighbours, content.color ?? "#43b047")
                   : [];
+                const issues = cellIssues(x, y);
                 return (
                   <button
                     key={`${x}-${y}`}
-                    onClick={() => handleCellClick(x, y)}
-                    className="w-7 h-7 rounded border border-sand/20 relative flex items-center justify-center text-[10px] font-bold overflow-visible"
+                    onClick={() => {
+                      if (suppressClickRef.current) {
+                        suppressClickRef.current = false;
+                        return;
+                      }
+                      handleCellClick(x, y);
+                    }}
+                    onPointerDown={(e) => handleCellPointerDown(e, x, y)}
+                    onPointerEnter={() => handleCellPointerEnter(x, y)}
+                    title={issues.length > 0 ? issues.map((issue) => issue.message).join("\n") : undefined}
+                    className={`w-7 h-7 rounded border relative flex items-center justify-center text-[10px] font-bold overflow-visible ${issues.length > 0 ? "border-ember ring-2 ring-ember" : "border-sand/20"}`}
                     style={{
                       backgroundColor: content
                         ? content.type === "food"
                           ? "#22c55e"
                           : content.type === "hazard"
-                          ? "#dc2626"
+                          ? HAZARD_COLORS[Math.min(content.hazardStack ?? 1, HAZARD_COLORS.length) - 1]
                           : content.color
                         : "#1a1a2e",
                     }}
@@ -704,10 +1606,26 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
                     {content?.type === "hazard" && (
                       <span className="text-sm">❕</span>
                     )}
+                    {content?.type === "hazard" && content.hazardStack !== undefined && content.hazardStack > 1 && (
+                      <span
+                        className="absolute -bottom-1 -right-1 z-20 rounded-full bg-night text-sand text-[8px] leading-none px-0.5"
+                        title={`${content.hazardStack} stacked hazards`}
+                      >
+                        ×{content.hazardStack}
+                      </span>
+                    )}
                     {content?.type === "head" && (
                       <span className="text-white z-10">{content.headEmoji || (content.isYou ? "👍" : "🐍")}</span>
                     )}
-                    {content?.type === "body" && content.health !== undefined && content.nextSegment === null && (
+                    {isSnake && content.stackCount !== undefined && content.stackCount > 1 && (
+                      <span
+                        className="absolute -bottom-1 -right-1 z-20 rounded-full bg-night text-sand text-[8px] leading-none px-0.5"
+                        title={`${content.stackCount} stacked segments`}
+                      >
+                        ×{content.stackCount}
+                      </span>
+                    )}
+                    {content?.type === "body" && content.health !== undefined && content.isTail && (
                       <span className="text-white text-[9px] z-10">{content.health}</span>
                     )}
                   </button>
@@ -715,7 +1633,17 @@ export default function TestEditor({ initialData, onSave, onCancel, showMakePriv
               })
             )}
           </div>
-          <p className="text-sand/40 text-xs mt-2">Click cells to place/remove elements</p>
+          <p className="text-sand/40 text-xs mt-2">
+            Click cells to place/remove elements. With a snake tool, drag from an empty cell to draw the selected snake,
+            drag a head or tail to grow or shrink it, or drag the middle of a snake to move it.
+          </p>
+          {boardIssues.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-ember">
+              {boardIssues.map((issue, index) => (
+                <li key={index}>⚠ {issue.message}</li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
     </div>
@@ -1,29 +1,101 @@
-import { useState, useCallback } from "react";
-import { useMutation, useAction } from "convex/react";
+import { useState, useCallback, useMemo } from "react";
+import { useMutation, useAction, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import type { Id } from "../../convex/_generated/dataModel";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import type { MoveGrade, RepeatSummary } from "../../convex/scoring";
+import type { BotInfo, LifecycleStep } from "../../convex/runner";
 
 type RunResult = {
   ok: boolean;
   move?: string | null;
   shout?: string | null;
   passed?: boolean;
+  grade?: MoveGrade;
+  score?: number;
   error?: string;
+  timedOut?: boolean;
   status?: number;
   responseTimeMs?: number;
+  scenarioMoves?: string[];
+  survivedTurns?: number;
+  eliminationCause?: string;
+  lifecycleSteps?: LifecycleStep[];
+  botInfo?: BotInfo;
+  repeatSummary?: RepeatSummary;
 };
 
 type TestRunState = {
-  status: "idle" | "running" | "completed" | "failed";
+  status: "idle" | "running" | "completed" | "failed" | "timeout";
   result?: RunResult;
 };
 
-export function useAsyncTestRun(token: string | null) {
-  const [runStates, setRunStates] = useState<Record<string, TestRunState>>({});
+function toRunState(run: Doc<"testRuns">): TestRunState {
+  if (run.status === "running") {
+    return { status: "running" };
+  }
+  if (run.status === "completed") {
+    return {
+      status: "completed",
+      result: {
+        ok: true,
+        move: run.move ?? null,
+        shout: run.shout ?? null,
+        passed: run.passed,
+        grade: run.grade,
+        score: run.score,
+        responseTimeMs: run.responseTimeMs,
+        scenarioMoves: run.scenarioMoves,
+        survivedTurns: run.survivedTurns,
+        eliminationCause: run.eliminationCause,
+        lifecycleSteps: run.lifecycleSteps,
+        botInfo: run.botInfo,
+        repeatSummary: run.repeatSummary,
+      },
+    };
+  }
+  return {
+    status: run.status,
+    result: {
+      ok: false,
+      move: run.move ?? null,
+      error: run.error,
+      timedOut: run.status === "timeout",
+      status: run.httpStatus,
+      responseTimeMs: run.responseTimeMs,
+      lifecycleSteps: run.lifecycleSteps,
+      botInfo: run.botInfo,
+      repeatSummary: run.repeatSummary,
+    },
+  };
+}
+
+// With `lifecycle`, runs also call the bot's `/`, `/start` and `/end`. With
+// `botId`, runs use that saved bot's URL, headers and timeout. With `repeat`,
+// each test is played that many times to catch flaky bots.
+export function useAsyncTestRun(
+  token: string | null,
+  options: { lifecycle?: boolean; botId?: Id<"bots">; repeat?: number } = {}
+) {
+  const { lifecycle, botId, repeat } = options;
+  const [testRunStates, setTestRunStates] = useState<Record<string, TestRunState>>({});
   const [runError, setRunError] = useState<string | null>(null);
+  const [suiteRunId, setSuiteRunId] = useState<Id<"suiteRuns"> | null>(null);
 
   const startTestRun = useMutation(api.battlesnake.startTestRun);
   const executeTestRun = useAction(api.battlesnake.executeTestRun);
+  const startSuiteRun = useMutation(api.suites.startSuiteRun);
+  const suite = useQuery(
+    api.suites.getSuiteRun,
+    token && suiteRunId ? { token, suiteRunId } : "skip"
+  );
+
+  const runStates = useMemo(() => {
+    const suiteStates: Record<string, TestRunState> = {};
+    for (const run of suite?.runs ?? []) {
+      suiteStates[run.testId] = toRunState(run);
+    }
+    return { ...suiteStates, ...testRunStates };
+  }, [suite, testRunStates]);
 
   const runTest = useCallback(
     async (testId: Id<"tests">, botUrl: string) => {
@@ -38,7 +110,7 @@ export function useAsyncTestRun(token: string | null) {
       }
 
       setRunError(null);
-      setRunStates((prev) => ({
+      setTestRunStates((prev) => ({
         ...prev,
         [testId]: { status: "running" },
       }));
@@ -48,11 +120,14 @@ export function useAsyncTestRun(token: string | null) {
           token,
           testId,
           botUrl,
+          botId,
+          lifecycle,
+          repeat,
         });
 
         executeTestRun({ runId }).then((result) => {
           if (result.ok) {
-            setRunStates((prev) => ({
+            setTestRunStates((prev) => ({
               ...prev,
               [testId]: {
                 status: "completed",
@@ -61,24 +136,36 @@ export function useAsyncTestRun(token: string | null) {
                   move: result.move,
                   shout: result.shout,
                   passed: result.passed,
+                  grade: result.grade,
+                  score: result.score,
                   responseTimeMs: result.responseTimeMs,
+                  scenarioMoves: result.scenarioMoves,
+                  survivedTurns: result.survivedTurns,
+                  eliminationCause: result.eliminationCause,
+                  lifecycleSteps: result.lifecycleSteps,
+                  botInfo: result.botInfo,
+                  repeatSummary: result.repeatSummary,
                 },
               },
             }));
           } else {
-            setRunStates((prev) => ({
+            setTestRunStates((prev) => ({
               ...prev,
               [testId]: {
-                status: "failed",
+                status: result.timedOut ? "timeout" : "failed",
                 result: {
                   ok: false,
                   error: result.error,
+                  timedOut: result.timedOut,
+                  lifecycleSteps: result.lifecycleSteps,
+                  botInfo: result.botInfo,
+                  repeatSummary: result.repeatSummary,
                 },
               },
             }));
           }
         }).catch((error) => {
-          setRunStates((prev) => ({
+          setTestRunStates((prev) => ({
             ...prev,
             [testId]: {
               status: "failed",
@@ -90,7 +177,7 @@ export function useAsyncTestRun(token: string | null) {
           }));
         });
       } catch (error) {
-        setRunStates((prev) => ({
+        setTestRunStates((prev) => ({
           ...prev,
           [testId]: {
             status: "failed",
@@ -102,11 +189,14 @@ export function useAsyncTestRun(token: string | null) {
         }));
       }
     },
-    [token, startTestRun, executeTestRun]
+    [token, lifecycle, botId, repeat, startTestRun, executeTestRun]
   );
 
-  const runAllTests = useCallback(
-    async (tests: Array<{ _id: Id<"tests"> }>, botUrl: string) => {
+  const runSuite = useCallback(
+    async (
+      target: { collectionId: Id<"collections"> } | { testIds: Id<"tests">[] },
+      botUrl: string
+    ) => {
       if (!token) {
         setRunError("Please log in to run tests.");
         return;
@@ -118,9 +208,36 @@ export function useAsyncTestRun(token: string | null) {
       }
 
       setRunError(null);
-      await Promise.all(tests.map((test) => runTest(test._id, botUrl)));
+      try {
+        const { suiteRunId: nextSuiteRunId } = await startSuiteRun({
+          token,
+          botUrl,
+          botId,
+          lifecycle,
+          repeat,
+          ...target,
+        });
+        setTestRunStates({});
+        setSuiteRunId(nextSuiteRunId);
+      } catch (error) {
+        setRunError(error instanceof Error ? error.message : "Failed to start test suite.");
+      }
+    },
+    [token, lifecycle, botId, repeat, startSuiteRun]
+  );
+
+  const runAllTests = useCallback(
+    async (tests: Array<{ _id: Id<"tests"> }>, botUrl: string) => {
+      await runSuite({ testIds: tests.map((test) => test._id) }, botUrl);
+    },
+    [runSuite]
+  );
+
+  const runCollection = useCallback(
+    async (collectionId: Id<"collections">, botUrl: string) => {
+      await runSuite({ collectionId }, botUrl);
     },
-    [token, runTest]
+    [runSuite]
   );
 
   const isRunning = useCallback(
@@ -134,16 +251,19 @@ export function useAsyncTestRun(token: string | null) {
   );
 
   const clearResults = useCallback(() => {
-    setRunStates({});
+    setTestRunStates({});
+    setSuiteRunId(null);
     setRunError(null);
   }, []);
 
   return {
     runTest,
     runAllTests,
+    runCollection,
     isRunning,
     getResult,
     runStates,
+    suiteRun: suite?.suiteRun ?? null,
     runError,
     clearResults,
   };
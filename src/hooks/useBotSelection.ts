@@ -0,0 +1,37 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+// The bot a page runs tests against: one of the user's saved bots, or a URL
+// typed by hand. Both are remembered across pages under `storageKey`.
+export function useBotSelection(token: string | null, storageKey = "bot") {
+  const bots = useQuery(api.bots.listBots, token ? { token } : "skip");
+  const [storedBotId, setStoredBotId] = useState(() => localStorage.getItem(`${storageKey}Id`) ?? "");
+  const [customUrl, setCustomUrlState] = useState(() => localStorage.getItem(`${storageKey}Url`) ?? "");
+
+  const bot = bots?.find((item) => item._id === storedBotId);
+  const botId: Id<"bots"> | undefined = bot?._id;
+
+  const setBotId = (id: Id<"bots"> | "") => {
+    setStoredBotId(id);
+    localStorage.setItem(`${storageKey}Id`, id);
+  };
+
+  const setCustomUrl = (url: string) => {
+    setCustomUrlState(url);
+    localStorage.setItem(`${storageKey}Url`, url);
+  };
+
+  return {
+    bots: bots ?? [],
+    bot,
+    botId,
+    botUrl: bot?.baseUrl ?? customUrl,
+    customUrl,
+    setBotId,
+    setCustomUrl,
+  };
+}
+
+export type BotSelection = ReturnType<typeof useBotSelection>;
@@ -0,0 +1,32 @@
+import { useState } from "react";
+
+const MAX_HISTORY = 100;
+
+// Undo/redo over snapshots of some state. `current` must be built once per
+// render; call `record` before changing anything it covers. Several setters
+// called from one handler all see the same snapshot, so they share an entry.
+export function useUndoHistory<T>(current: T, restore: (snapshot: T) => void) {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  const record = () => {
+    setPast((prev) => (prev[prev.length - 1] === current ? prev : [...prev, current].slice(-MAX_HISTORY)));
+    setFuture([]);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setPast(past.slice(0, -1));
+    setFuture([current, ...future]);
+    restore(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setFuture(future.slice(1));
+    setPast([...past, current]);
+    restore(future[0]);
+  };
+
+  return { record, undo, redo, canUndo: past.length > 0, canRedo: future.length > 0 };
+}
@@ -5,7 +5,11 @@ import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
 import BoardPreview from "../components/BoardPreview";
+import RulesetBadge from "../components/RulesetBadge";
 import TestEditor from "../components/TestEditor";
+import { describeExpectations } from "../../convex/scoring";
+import { checkExpectationsAgainstOracle } from "../../convex/safeMoves";
+import type { ScenarioScript } from "../../convex/scenario";
 
 type BannedAccount = {
   _id: Id<"bannedGoogleAccounts">;
@@ -36,9 +40,14 @@ type Test = {
   name: string;
   description?: string;
   board: Board;
+  game?: Game;
   turn: number;
   youId: string;
   expectedSafeMoves: string[];
+  preferredMove?: string;
+  forbiddenMoves?: string[];
+  scenario?: ScenarioScript;
+  latencyBudgetMs?: number;
   status?: string;
   submitterName?: string;
   permaRejected?: boolean;
@@ -125,6 +134,10 @@ export default function AdminPage() {
     turn: number;
     youId: string;
     expectedSafeMoves: string[];
+    preferredMove?: string;
+    forbiddenMoves?: string[];
+    scenario?: ScenarioScript;
+    latencyBudgetMs?: number;
   }) => {
     if (!token || !editingTest) return;
     try {
@@ -307,7 +320,10 @@ export default function AdminPage() {
                 {pendingTests.map((test) => (
                   <div key={test._id} className="bg-ink border border-sand/20 rounded-lg p-4">
                     <div className="flex items-center justify-between mb-2">
-                      <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                      <div className="flex items-center gap-2">
+                        <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                        <RulesetBadge game={test.game} />
+                      </div>
                       <div className="flex items-center gap-2">
                         <button
                           onClick={() => setExpandedTest(expandedTest === test._id ? null : test._id)}
@@ -333,9 +349,12 @@ export default function AdminPage() {
                       <p className="text-sand/70 text-sm mb-2">{test.description}</p>
                     )}
                     <p className="text-sand/60 text-sm mb-2">
-                      Turn {test.turn} | Expected: {test.expectedSafeMoves.join(", ")} | Board: {test.board.width}x{test.board.height}
+                      Turn {test.turn} | Expected: {describeExpectations(test)} | Board: {test.board.width}x{test.board.height}
                       {test.submitterName && <span className="ml-2 text-lagoon">| Submitted by: {test.submitterName}</span>}
                     </p>
+                    {checkExpectationsAgainstOracle(test).map((warning) => (
+                      <p key={warning} className="text-clay text-sm mb-2">⚠ {warning}</p>
+                    ))}
 
                     {expandedTest === test._id && (
                       <div className="my-4">
@@ -385,7 +404,10 @@ export default function AdminPage() {
                 {(publicTests as Test[]).map((test) => (
                   <div key={test._id} className="bg-ink border border-sand/20 rounded-lg p-4">
                     <div className="flex items-center justify-between mb-2">
-                      <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                      <div className="flex items-center gap-2">
+                        <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                        <RulesetBadge game={test.game} />
+                      </div>
                       <div className="flex items-center gap-2">
                         <button
                           onClick={() => setExpandedTest(expandedTest === test._id ? null : test._id)}
@@ -411,7 +433,7 @@ export default function AdminPage() {
                       <p className="text-sand/70 text-sm mb-2">{test.description}</p>
                     )}
                     <p className="text-sand/60 text-sm mb-2">
-                      Turn {test.turn} | Expected: {test.expectedSafeMoves.join(", ")} | Board: {test.board.width}x{test.board.height}
+                      Turn {test.turn} | Expected: {describeExpectations(test)} | Board: {test.board.width}x{test.board.height}
                       {(test as Test & { submitterName?: string }).submitterName && <span className="ml-2 text-lagoon">| Submitted by: {(test as Test & { submitterName?: string }).submitterName}</span>}
                     </p>
 
@@ -442,6 +464,7 @@ export default function AdminPage() {
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center gap-2">
                         <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                        <RulesetBadge game={test.game} />
                         {test.permaRejected && (
                           <span className="px-2 py-0.5 text-xs rounded bg-ember/30 text-ember border border-ember/50">
                             Perma-rejected
@@ -473,7 +496,7 @@ export default function AdminPage() {
                       <p className="text-sand/70 text-sm mb-2">{test.description}</p>
                     )}
                     <p className="text-sand/60 text-sm mb-2">
-                      Turn {test.turn} | Expected: {test.expectedSafeMoves.join(", ")} | Board: {test.board.width}x{test.board.height}
+                      Turn {test.turn} | Expected: {describeExpectations(test)} | Board: {test.board.width}x{test.board.height}
                       {test.submitterName && <span className="ml-2 text-lagoon">| Submitted by: {test.submitterName}</span>}
                     </p>
                     {editingRejectionReason === test._id ? (
@@ -547,7 +570,10 @@ export default function AdminPage() {
                 {(privateTests as Test[]).map((test) => (
                   <div key={test._id} className="bg-ink border border-sand/20 rounded-lg p-4">
                     <div className="flex items-center justify-between mb-2">
-                      <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                      <div className="flex items-center gap-2">
+                        <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                        <RulesetBadge game={test.game} />
+                      </div>
                       <div className="flex items-center gap-2">
                         <button
                           onClick={() => setExpandedTest(expandedTest === test._id ? null : test._id)}
@@ -573,7 +599,7 @@ export default function AdminPage() {
                       <p className="text-sand/70 text-sm mb-2">{test.description}</p>
                     )}
                     <p className="text-sand/60 text-sm mb-2">
-                      Turn {test.turn} | Expected: {test.expectedSafeMoves.join(", ")} | Board: {test.board.width}x{test.board.height}
+                      Turn {test.turn} | Expected: {describeExpectations(test)} | Board: {test.board.width}x{test.board.height}
                       {test.submitterName && <span className="ml-2 text-lagoon">| Submitted by: {test.submitterName}</span>}
                     </p>
 
@@ -3,7 +3,14 @@ import { useParams, Link } from "react-router-dom";
 import { useQuery, useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
+import { useAuth } from "../contexts/AuthContext";
 import BoardPreview from "../components/BoardPreview";
+import RulesetBadge from "../components/RulesetBadge";
+import BotPicker from "../components/BotPicker";
+import { useBotSelection } from "../hooks/useBotSelection";
+import { compareScores, describeExpectations, MOVE_GRADE_LABELS, summarizeGrades } from "../../convex/scoring";
+import type { Comparison, MoveGrade } from "../../convex/scoring";
+import type { ScenarioScript } from "../../convex/scenario";
 
 type Coordinate = { x: number; y: number };
 type Snake = {
@@ -22,25 +29,75 @@ type Board = {
   snakes: Snake[];
 };
 
+type Game = {
+  ruleset?: { name?: string; settings?: { hazardMap?: string; hazardDamagePerTurn?: number } };
+  map?: string;
+  timeout?: number;
+};
+
 type Test = {
   _id: Id<"tests">;
   name: string;
   board: Board;
+  game?: Game;
   turn: number;
   youId: string;
   expectedSafeMoves: string[];
+  preferredMove?: string;
+  forbiddenMoves?: string[];
+  scenario?: ScenarioScript;
 };
 
-type RunResult = {
-  ok: boolean;
-  move?: string | null;
-  error?: string;
+type RunResult =
+  | {
+      ok: true;
+      move: string | null;
+      passed: boolean;
+      grade: MoveGrade;
+      score: number;
+      scenarioMoves?: string[];
+      survivedTurns?: number;
+      eliminationCause?: string;
+      responseTimeMs: number;
+    }
+  | { ok: false; error: string; timedOut?: boolean; responseTimeMs?: number };
+
+const COMPARISON_STYLES: Record<Comparison, { label: string; className: string }> = {
+  regressed: { label: "Regressed", className: "bg-ember/20 text-ember" },
+  improved: { label: "Improved", className: "bg-moss/20 text-moss" },
+  unchanged: { label: "Same", className: "bg-sand/10 text-sand/60" },
 };
 
+function resultScore(result: RunResult) {
+  return result.ok ? result.score : 0;
+}
+
+function describeResult(result: RunResult) {
+  if (!result.ok) {
+    return result.timedOut ? "TIMEOUT" : "ERROR";
+  }
+  return `${result.move ?? "no move"} (${MOVE_GRADE_LABELS[result.grade]})`;
+}
+
+function formatLatencyDelta(baseline: RunResult, candidate: RunResult) {
+  if (baseline.responseTimeMs === undefined || candidate.responseTimeMs === undefined) {
+    return null;
+  }
+  const delta = candidate.responseTimeMs - baseline.responseTimeMs;
+  return `${delta > 0 ? "+" : ""}${delta}ms`;
+}
+
 export default function CollectionPage() {
   const { slug } = useParams<{ slug: string }>();
-  const [botUrl, setBotUrl] = useState(() => localStorage.getItem("botUrl") ?? "");
+  const { token } = useAuth();
+  const botSelection = useBotSelection(token);
+  const { botUrl, botId } = botSelection;
   const [results, setResults] = useState<Record<string, RunResult>>({});
+  // Compare mode runs every test against a baseline bot as well, so the
+  // selected bot can be diffed against e.g. the version before a refactor.
+  const [compareMode, setCompareMode] = useState(false);
+  const baselineSelection = useBotSelection(token, "baselineBot");
+  const [baselineResults, setBaselineResults] = useState<Record<string, RunResult>>({});
   const [runningIds, setRunningIds] = useState<Record<string, boolean>>({});
   const [expandedTest, setExpandedTest] = useState<Id<"tests"> | null>(null);
 
@@ -77,36 +134,61 @@ export default function CollectionPage() {
 
   const { collection, tests } = data;
 
-  const handleRunTest = async (test: Test) => {
-    if (!botUrl.trim()) return;
-    localStorage.setItem("botUrl", botUrl);
+  // A saved bot is looked up server-side so its headers never reach this page.
+  const botArgs = (id: Id<"bots"> | undefined) => (token && id ? { token, botId: id } : {});
+  const canRun = botUrl.trim() !== "" && (!compareMode || baselineSelection.botUrl.trim() !== "");
+
+  // A run that throws (e.g. a saved bot that no longer exists) is recorded as
+  // an error so "Run All" carries on with the remaining tests.
+  const runAgainst = async (test: Test, url: string, id: Id<"bots"> | undefined): Promise<RunResult> => {
+    try {
+      return await runTest({ testId: test._id, url, ...botArgs(id) });
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  };
+
+  // The two bots run one after the other so neither slows the other down.
+  const runOne = async (test: Test) => {
     setRunningIds((prev) => ({ ...prev, [test._id]: true }));
     try {
-      const result = await runTest({ testId: test._id, url: botUrl });
+      if (compareMode) {
+        const baseline = await runAgainst(test, baselineSelection.botUrl, baselineSelection.botId);
+        setBaselineResults((prev) => ({ ...prev, [test._id]: baseline }));
+      }
+      const result = await runAgainst(test, botUrl, botId);
       setResults((prev) => ({ ...prev, [test._id]: result }));
     } finally {
       setRunningIds((prev) => ({ ...prev, [test._id]: false }));
     }
   };
 
+  const handleRunTest = async (test: Test) => {
+    if (!canRun) return;
+    await runOne(test);
+  };
+
   const handleRunAll = async () => {
-    if (!botUrl.trim()) return;
-    localStorage.setItem("botUrl", botUrl);
+    if (!canRun) return;
     for (const test of tests) {
-      setRunningIds((prev) => ({ ...prev, [test._id]: true }));
-      try {
-        const result = await runTest({ testId: test._id, url: botUrl });
-        setResults((prev) => ({ ...prev, [test._id]: result }));
-      } finally {
-        setRunningIds((prev) => ({ ...prev, [test._id]: false }));
-      }
+      await runOne(test);
     }
   };
 
-  const passCount = tests.filter((t) => {
-    const r = results[t._id];
-    return r?.ok && t.expectedSafeMoves.includes(r.move ?? "");
-  }).length;
+  const comparisons = compareMode
+    ? tests.flatMap((test) => {
+        const baseline = baselineResults[test._id];
+        const candidate = results[test._id];
+        return baseline && candidate ? [compareScores(resultScore(baseline), resultScore(candidate))] : [];
+      })
+    : [];
+
+  const summary = summarizeGrades(
+    tests.flatMap((t) => {
+      const r = results[t._id];
+      return r?.ok ? [r] : [];
+    })
+  );
 
   return (
     <div className="min-h-screen bg-night p-4">
@@ -121,26 +203,54 @@ export default function CollectionPage() {
         </header>
 
         <div className="bg-ink border border-sand/20 rounded-lg p-4 mb-6">
-          <label className="block text-sand/80 text-sm mb-1">Your Bot URL</label>
+          <label className="block text-sand/80 text-sm mb-1">{compareMode ? "New Bot" : "Your Bot"}</label>
           <div className="flex gap-2">
-            <input
-              type="text"
-              value={botUrl}
-              onChange={(e) => setBotUrl(e.target.value)}
-              placeholder="https://your-battlesnake.com"
-              className="flex-1 bg-night border border-sand/20 rounded px-3 py-2 text-sand focus:outline-none focus:border-lagoon"
-            />
+            <BotPicker selection={botSelection} />
             <button
               onClick={handleRunAll}
-              disabled={!botUrl.trim() || tests.length === 0}
+              disabled={!canRun || tests.length === 0}
               className="bg-lagoon text-ink px-4 py-2 rounded hover:bg-lagoon/80 disabled:opacity-50"
             >
-              Run All Tests
+              {compareMode ? "Compare All Tests" : "Run All Tests"}
             </button>
           </div>
+          {compareMode && (
+            <>
+              <label className="block text-sand/80 text-sm mt-3 mb-1">Baseline Bot</label>
+              <div className="flex">
+                <BotPicker selection={baselineSelection} />
+              </div>
+            </>
+          )}
+          <label className="flex items-center gap-2 text-sand/60 text-xs mt-2">
+            <input
+              type="checkbox"
+              checked={compareMode}
+              onChange={(e) => {
+                setCompareMode(e.target.checked);
+                setBaselineResults({});
+              }}
+            />
+            Compare against a baseline bot
+          </label>
           {Object.keys(results).length > 0 && (
             <p className="text-sand/60 text-sm mt-2">
-              Results: {passCount}/{tests.length} passed
+              Results: {summary.passed}/{tests.length} passed | Score: {summary.score}/{tests.length}
+              {summary.forbidden > 0 && <span className="ml-2 text-ember">| {summary.forbidden} forbidden</span>}
+            </p>
+          )}
+          {comparisons.length > 0 && (
+            <p className="text-sm mt-1">
+              <span className="text-ember">
+                {comparisons.filter((comparison) => comparison === "regressed").length} regressed
+              </span>
+              <span className="text-sand/40"> | </span>
+              <span className="text-moss">
+                {comparisons.filter((comparison) => comparison === "improved").length} improved
+              </span>
+              <span className="text-sand/40">
+                {" "}| {comparisons.filter((comparison) => comparison === "unchanged").length} unchanged
+              </span>
             </p>
           )}
         </div>
@@ -152,11 +262,17 @@ export default function CollectionPage() {
             {tests.map((test) => {
               const result = results[test._id];
               const isRunning = runningIds[test._id];
-              const passed = result?.ok && test.expectedSafeMoves.includes(result.move ?? "");
+              const graded = result?.ok ? result : null;
+              const baseline = baselineResults[test._id];
+              const comparison =
+                baseline && result ? compareScores(resultScore(baseline), resultScore(result)) : undefined;
               return (
                 <div key={test._id} className="bg-ink border border-sand/20 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-2">
-                    <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                    <div className="flex items-center gap-3">
+                      <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                      <RulesetBadge game={test.game} />
+                    </div>
                     <div className="flex items-center gap-2">
                       <button
                         onClick={() => setExpandedTest(expandedTest === test._id ? null : test._id)}
@@ -166,7 +282,7 @@ export default function CollectionPage() {
                       </button>
                       <button
                         onClick={() => handleRunTest(test)}
-                        disabled={isRunning || !botUrl.trim()}
+                        disabled={isRunning || !canRun}
                         className="text-sm px-3 py-1 bg-lagoon text-ink rounded disabled:opacity-50"
                       >
                         {isRunning ? "Running..." : "Run"}
@@ -174,7 +290,7 @@ export default function CollectionPage() {
                     </div>
                   </div>
                   <p className="text-sand/60 text-sm">
-                    Turn {test.turn} | Expected: {test.expectedSafeMoves.join(", ")}
+                    Turn {test.turn} | Expected: {describeExpectations(test)}
                   </p>
 
                   {expandedTest === test._id && (
@@ -183,13 +299,41 @@ export default function CollectionPage() {
                     </div>
                   )}
 
+                  {compareMode && baseline && result && (
+                    <div className="mt-2 p-2 rounded text-sm bg-night border border-sand/10 flex flex-wrap items-center gap-x-4 gap-y-1">
+                      <span className={`px-2 py-0.5 text-xs rounded ${COMPARISON_STYLES[comparison ?? "unchanged"].className}`}>
+                        {COMPARISON_STYLES[comparison ?? "unchanged"].label}
+                      </span>
+                      <span className="text-sand/60">
+                        Baseline: <span title={baseline.ok ? undefined : baseline.error} className={baseline.ok && baseline.passed ? "text-moss" : "text-ember"}>{describeResult(baseline)}</span>
+                      </span>
+                      <span className="text-sand/60">
+                        New: <span className={result.ok && result.passed ? "text-moss" : "text-ember"}>{describeResult(result)}</span>
+                      </span>
+                      {formatLatencyDelta(baseline, result) && (
+                        <span className="text-sand/40">Latency {formatLatencyDelta(baseline, result)}</span>
+                      )}
+                    </div>
+                  )}
+
                   {result && (
-                    <div className={`mt-2 p-2 rounded text-sm ${passed ? "bg-moss/20 text-moss" : "bg-ember/20 text-ember"}`}>
+                    <div className={`mt-2 p-2 rounded text-sm ${graded?.grade === "acceptable" ? "bg-clay/20 text-clay" : graded?.passed ? "bg-moss/20 text-moss" : "bg-ember/20 text-ember"}`}>
                       {result.ok ? (
-                        <span>Move: {result.move} {passed ? "(PASS)" : "(FAIL)"}</span>
+                        <span>Move: {result.move} ({MOVE_GRADE_LABELS[result.grade]})</span>
+                      ) : result.timedOut ? (
+                        <span>
+                          <span className="mr-2 px-1.5 py-0.5 rounded bg-ember text-ink text-xs font-semibold">TIMEOUT</span>
+                          {result.error}
+                        </span>
                       ) : (
                         <span>Error: {result.error}</span>
                       )}
+                      {result.ok && result.scenarioMoves && (
+                        <div className="text-xs text-sand/60 mt-1">
+                          Survived {result.survivedTurns}/{test.scenario?.turns} turns
+                          {result.eliminationCause && ` (${result.eliminationCause})`} | Moves: {result.scenarioMoves.join(" ")}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
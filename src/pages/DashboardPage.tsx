@@ -1,12 +1,29 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
-import { useQuery, useMutation } from "convex/react";
+import { useAction, useConvex, useQuery, useMutation } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
 import TestEditor from "../components/TestEditor";
 import BoardPreview from "../components/BoardPreview";
+import RulesetBadge from "../components/RulesetBadge";
+import SuiteRunSummary from "../components/SuiteRunSummary";
+import LifecycleSteps from "../components/LifecycleSteps";
+import FlakyBadge from "../components/FlakyBadge";
+import RepeatInput from "../components/RepeatInput";
+import RepeatResults from "../components/RepeatResults";
+import FuzzResults from "../components/FuzzResults";
+import RunHistory from "../components/RunHistory";
+import ApiKeysPanel from "../components/ApiKeysPanel";
+import BotPicker from "../components/BotPicker";
+import BotsPanel from "../components/BotsPanel";
+import BundleImportPanel from "../components/BundleImportPanel";
 import { useAsyncTestRun } from "../hooks/useAsyncTestRun";
+import { useBotSelection } from "../hooks/useBotSelection";
+import { describeExpectations, gradeResult, MOVE_GRADE_LABELS } from "../../convex/scoring";
+import type { ScenarioScript } from "../../convex/scenario";
+import type { Bundle } from "../../convex/bundleFormat";
 
 type Coordinate = { x: number; y: number };
 type Snake = {
@@ -53,19 +70,40 @@ type Test = {
   turn: number;
   youId: string;
   expectedSafeMoves: string[];
+  preferredMove?: string;
+  forbiddenMoves?: string[];
+  scenario?: ScenarioScript;
+  latencyBudgetMs?: number;
   status?: "pending" | "approved" | "rejected" | "private";
   rejectionReason?: string;
   permaRejected?: boolean;
+  parentTestId?: Id<"tests">;
 };
 
+function downloadBundle(bundle: Bundle) {
+  const slug = (bundle.name ?? "tests").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${slug || "tests"}.snek.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 export default function DashboardPage() {
   const { user, token, logout } = useAuth();
-  const [view, setView] = useState<"tests" | "collections">("tests");
+  const [view, setView] = useState<"tests" | "collections" | "history" | "bots" | "apiKeys">("tests");
   const [showEditor, setShowEditor] = useState(false);
   const [editingTest, setEditingTest] = useState<Test | null>(null);
-  const [botUrl, setBotUrl] = useState(() => localStorage.getItem("botUrl") ?? "");
-  const { runTest, isRunning, getResult } = useAsyncTestRun(token);
+  const botSelection = useBotSelection(token);
+  const { botUrl, botId } = botSelection;
+  const [lifecycle, setLifecycle] = useState(() => localStorage.getItem("lifecycleCalls") === "true");
+  const [repeat, setRepeat] = useState(() => Number(localStorage.getItem("repeatRuns")) || 1);
+  const { runTest, runAllTests, runCollection, isRunning, getResult, suiteRun, runError } = useAsyncTestRun(token, {
+    lifecycle,
+    botId,
+    repeat: repeat > 1 ? repeat : undefined,
+  });
 
   const myTests = useQuery(api.battlesnake.listMyTests, token ? { token } : "skip");
   const myCollections = useQuery(api.battlesnake.listCollections, token ? { token } : "skip");
@@ -76,6 +114,9 @@ export default function DashboardPage() {
   const createCollection = useMutation(api.battlesnake.createCollection);
   const updateCollection = useMutation(api.battlesnake.updateCollection);
   const deleteCollection = useMutation(api.battlesnake.deleteCollection);
+  const fuzzTest = useAction(api.fuzz.fuzzTest);
+  const [fuzzing, setFuzzing] = useState<Record<string, boolean>>({});
+  const [fuzzReports, setFuzzReports] = useState<Record<string, FunctionReturnType<typeof api.fuzz.fuzzTest>>>({});
   const addTestToCollection = useMutation(api.battlesnake.addTestToCollection);
   const removeTestFromCollection = useMutation(api.battlesnake.removeTestFromCollection);
   const regenerateSlug = useMutation(api.battlesnake.regenerateShareSlug);
@@ -84,6 +125,8 @@ export default function DashboardPage() {
   const [showNewCollection, setShowNewCollection] = useState(false);
   const [managingCollection, setManagingCollection] = useState<Id<"collections"> | null>(null);
   const [showBoardForTest, setShowBoardForTest] = useState<Set<string>>(new Set());
+  const [showImport, setShowImport] = useState(false);
+  const convex = useConvex();
 
   const collectionTests = useQuery(
     api.battlesnake.getCollectionTests,
@@ -105,6 +148,10 @@ export default function DashboardPage() {
     turn: number;
     youId: string;
     expectedSafeMoves: string[];
+    preferredMove?: string;
+    forbiddenMoves?: string[];
+    scenario?: ScenarioScript;
+    latencyBudgetMs?: number;
     makePrivate?: boolean;
   }) => {
     try {
@@ -138,19 +185,44 @@ export default function DashboardPage() {
 
   const handleRunTest = async (test: Test) => {
     if (!botUrl.trim()) return;
-    localStorage.setItem("botUrl", botUrl);
     await runTest(test._id, botUrl);
   };
 
+  const handleFuzzTest = async (test: Test) => {
+    if (!botUrl.trim()) return;
+    setFuzzing((prev) => ({ ...prev, [test._id]: true }));
+    try {
+      const report = await fuzzTest({ testId: test._id, url: botUrl, token, botId });
+      setFuzzReports((prev) => ({ ...prev, [test._id]: report }));
+    } finally {
+      setFuzzing((prev) => ({ ...prev, [test._id]: false }));
+    }
+  };
+
   const handleRunAllTests = async () => {
     if (!botUrl.trim() || !myTests?.length) return;
-    localStorage.setItem("botUrl", botUrl);
-    for (const test of myTests) {
-      await runTest(test._id, botUrl);
-    }
+    await runAllTests(myTests, botUrl);
+  };
+
+  const handleRunCollection = async (collectionId: Id<"collections">) => {
+    if (!botUrl.trim()) return;
+    await runCollection(collectionId, botUrl);
+  };
+
+  const handleExportTest = async (testId: Id<"tests">) => {
+    downloadBundle(await convex.query(api.bundles.exportTest, { token, testId }));
+  };
+
+  const handleExportMyTests = async () => {
+    downloadBundle(await convex.query(api.bundles.exportMyTests, { token }));
+  };
+
+  const handleExportCollection = async (collectionId: Id<"collections">) => {
+    downloadBundle(await convex.query(api.bundles.exportCollection, { token, collectionId }));
   };
 
   const anyTestRunning = myTests?.some((t) => isRunning(t._id)) ?? false;
+  const suiteRunning = suiteRun?.status === "running";
 
   const handleCreateCollection = async () => {
     if (!newCollectionName.trim()) return;
@@ -256,6 +328,34 @@ export default function DashboardPage() {
           </div>
         </header>
 
+        <div className="mb-4">
+          <label className="block text-sand/80 text-sm mb-1">Bot (for testing)</label>
+          <div className="flex max-w-xl">
+            <BotPicker selection={botSelection} />
+          </div>
+          <label className="flex items-center gap-2 text-sand/60 text-xs mt-2">
+            <input
+              type="checkbox"
+              checked={lifecycle}
+              onChange={(e) => {
+                setLifecycle(e.target.checked);
+                localStorage.setItem("lifecycleCalls", String(e.target.checked));
+              }}
+            />
+            Also call GET /, /start and /end around each test
+          </label>
+          <RepeatInput
+            value={repeat}
+            onChange={(value) => {
+              setRepeat(value);
+              localStorage.setItem("repeatRuns", String(value));
+            }}
+          />
+          {runError && <p className="text-ember text-sm mt-1">{runError}</p>}
+        </div>
+
+        {suiteRun && <SuiteRunSummary suiteRun={suiteRun} />}
+
         <div className="flex gap-4 mb-6">
           <button
             onClick={() => setView("tests")}
@@ -269,8 +369,30 @@ export default function DashboardPage() {
           >
             My Collections
           </button>
+          <button
+            onClick={() => setView("history")}
+            className={`px-4 py-2 rounded ${view === "history" ? "bg-lagoon text-ink" : "bg-ink text-sand border border-sand/20"}`}
+          >
+            Run History
+          </button>
+          <button
+            onClick={() => setView("bots")}
+            className={`px-4 py-2 rounded ${view === "bots" ? "bg-lagoon text-ink" : "bg-ink text-sand border border-sand/20"}`}
+          >
+            Bots
+          </button>
+          <button
+            onClick={() => setView("apiKeys")}
+            className={`px-4 py-2 rounded ${view === "apiKeys" ? "bg-lagoon text-ink" : "bg-ink text-sand border border-sand/20"}`}
+          >
+            API Keys
+          </button>
         </div>
 
+        {view === "history" && <RunHistory token={token} botUrl={botUrl} botId={botId} />}
+        {view === "bots" && <BotsPanel token={token} />}
+        {view === "apiKeys" && <ApiKeysPanel token={token} />}
+
         {view === "tests" && (
           <div>
             <div className="flex items-center justify-between mb-4">
@@ -278,11 +400,24 @@ export default function DashboardPage() {
               <div className="flex items-center gap-2">
                 <button
                   onClick={handleRunAllTests}
-                  disabled={anyTestRunning || !botUrl.trim() || !myTests?.length}
+                  disabled={anyTestRunning || suiteRunning || !botUrl.trim() || !myTests?.length}
                   className="bg-moss text-ink px-4 py-2 rounded hover:bg-moss/80 disabled:opacity-50"
                 >
                   {anyTestRunning ? "Running..." : "Run All Tests"}
                 </button>
+                <button
+                  onClick={() => void handleExportMyTests()}
+                  disabled={!myTests?.length}
+                  className="bg-sand/10 text-sand px-4 py-2 rounded hover:bg-sand/20 disabled:opacity-50"
+                >
+                  Export All
+                </button>
+                <button
+                  onClick={() => setShowImport(!showImport)}
+                  className="bg-sand/10 text-sand px-4 py-2 rounded hover:bg-sand/20"
+                >
+                  Import
+                </button>
                 <button
                   onClick={() => setShowEditor(true)}
                   className="bg-lagoon text-ink px-4 py-2 rounded hover:bg-lagoon/80"
@@ -292,16 +427,9 @@ export default function DashboardPage() {
               </div>
             </div>
 
-            <div className="mb-4">
-              <label className="block text-sand/80 text-sm mb-1">Bot URL (for testing)</label>
-              <input
-                type="text"
-                value={botUrl}
-                onChange={(e) => setBotUrl(e.target.value)}
-                placeholder="https://your-battlesnake.com"
-                className="w-full max-w-md bg-ink border border-sand/20 rounded px-3 py-2 text-sand focus:outline-none focus:border-lagoon"
-              />
-            </div>
+            {showImport && (
+              <BundleImportPanel token={token} onClose={() => setShowImport(false)} />
+            )}
 
             {myTests === undefined ? (
               <p className="text-sand/60">Loading...</p>
@@ -312,13 +440,17 @@ export default function DashboardPage() {
                 {myTests.map((test) => {
                   const result = getResult(test._id);
                   const running = isRunning(test._id);
-                  const passed = result?.ok && test.expectedSafeMoves.includes(result.move ?? "");
+                  const graded = result?.ok ? gradeResult(test, result) : null;
+                  const fuzzReport = fuzzReports[test._id];
+                  const variantCount = myTests.filter((item) => item.parentTestId === test._id).length;
                   return (
                     <div key={test._id} className="bg-ink border border-sand/20 rounded-lg p-4">
                       <div className="flex items-center justify-between mb-2">
                         <div className="flex items-center gap-3">
                           <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                          <RulesetBadge game={test.game} />
                           {getStatusBadge(test.status, test.permaRejected)}
+                          <FlakyBadge summary={result?.repeatSummary} />
                         </div>
                         <div className="flex items-center gap-2">
                           {test.status === "rejected" && !test.permaRejected && (
@@ -336,6 +468,14 @@ export default function DashboardPage() {
                           >
                             {running ? "Running..." : "Run Test"}
                           </button>
+                          <button
+                            onClick={() => void handleFuzzTest(test)}
+                            disabled={fuzzing[test._id] || !botUrl.trim()}
+                            title="Run mirrored, rotated and otherwise mutated copies of this test"
+                            className="text-sm px-3 py-1 bg-lagoon/20 text-lagoon rounded hover:bg-lagoon/30 disabled:opacity-50"
+                          >
+                            {fuzzing[test._id] ? "Fuzzing..." : "Fuzz"}
+                          </button>
                           {!test.permaRejected && (
                             <button
                               onClick={() => { setEditingTest(test); setShowEditor(true); }}
@@ -344,6 +484,12 @@ export default function DashboardPage() {
                               Edit
                             </button>
                           )}
+                          <button
+                            onClick={() => void handleExportTest(test._id)}
+                            className="text-sm px-3 py-1 bg-sand/10 text-sand rounded hover:bg-sand/20"
+                          >
+                            Export
+                          </button>
                           <button
                             onClick={() => handleDeleteTest(test._id)}
                             className="text-sm px-3 py-1 bg-ember/20 text-ember rounded hover:bg-ember/30"
@@ -355,8 +501,15 @@ export default function DashboardPage() {
                       {test.description && (
                         <p className="text-sand/70 text-sm mb-1">{test.description}</p>
                       )}
+                      {(test.parentTestId || variantCount > 0) && (
+                        <p className="text-sand/40 text-xs mb-1">
+                          {test.parentTestId
+                            ? `Variant of ${myTests.find((item) => item._id === test.parentTestId)?.name ?? "a test"}`
+                            : `${variantCount} symmetry variant${variantCount === 1 ? "" : "s"}`}
+                        </p>
+                      )}
                       <div className="flex items-center gap-4 text-sand/60 text-sm">
-                        <span>Turn {test.turn} | Expected: {test.expectedSafeMoves.join(", ")}</span>
+                        <span>Turn {test.turn} | Expected: {describeExpectations(test)}</span>
                         <button
                           onClick={() => {
                             const next = new Set(showBoardForTest);
@@ -384,19 +537,47 @@ export default function DashboardPage() {
                         </p>
                       )}
                       {result && (
-                        <div className={`mt-2 p-2 rounded text-sm ${passed ? "bg-moss/20 text-moss" : "bg-ember/20 text-ember"}`}>
-                          {result.ok ? (
+                        <div className={`mt-2 p-2 rounded text-sm ${graded?.grade === "acceptable" ? "bg-clay/20 text-clay" : graded?.passed ? "bg-moss/20 text-moss" : "bg-ember/20 text-ember"}`}>
+                          {result.ok && graded ? (
                             <span>
-                              Move: {result.move} {passed ? "(PASS)" : "(FAIL)"}
+                              Move: {result.move} ({MOVE_GRADE_LABELS[graded.grade]})
                               {result.responseTimeMs !== undefined && (
                                 <span className="ml-2 text-sand/60">| {result.responseTimeMs}ms</span>
                               )}
                             </span>
+                          ) : result.timedOut ? (
+                            <span>
+                              <span className="mr-2 px-1.5 py-0.5 rounded bg-ember text-ink text-xs font-semibold">TIMEOUT</span>
+                              {result.error}
+                            </span>
                           ) : (
                             <span>Error: {result.error}</span>
                           )}
+                          {result.ok && result.scenarioMoves && (
+                            <div className="text-xs text-sand/60 mt-1">
+                              Survived {result.survivedTurns}/{test.scenario?.turns} turns
+                              {result.eliminationCause && ` (${result.eliminationCause})`} | Moves: {result.scenarioMoves.join(" ")}
+                            </div>
+                          )}
+                          {result.lifecycleSteps && (
+                            <LifecycleSteps steps={result.lifecycleSteps} botInfo={result.botInfo} />
+                          )}
+                          {result.repeatSummary && <RepeatResults summary={result.repeatSummary} />}
                         </div>
                       )}
+                      {fuzzReport && (fuzzReport.ok ? (
+                        <FuzzResults
+                          seed={fuzzReport.seed}
+                          original={fuzzReport.original}
+                          variants={fuzzReport.variants}
+                          onClose={() => setFuzzReports((prev) => {
+                            const { [test._id]: _closed, ...rest } = prev;
+                            return rest;
+                          })}
+                        />
+                      ) : (
+                        <p className="mt-2 text-ember text-sm">Fuzz failed: {fuzzReport.error}</p>
+                      ))}
                     </div>
                   );
                 })}
@@ -465,6 +646,19 @@ export default function DashboardPage() {
                         >
                           {managingCollection === collection._id ? "Close" : "Manage Tests"}
                         </button>
+                        <button
+                          onClick={() => void handleRunCollection(collection._id)}
+                          disabled={suiteRunning || !botUrl.trim()}
+                          className="text-sm px-3 py-1 bg-moss text-ink rounded hover:bg-moss/80 disabled:opacity-50"
+                        >
+                          Run Collection
+                        </button>
+                        <button
+                          onClick={() => void handleExportCollection(collection._id)}
+                          className="text-sm px-3 py-1 bg-sand/10 text-sand rounded hover:bg-sand/20"
+                        >
+                          Export
+                        </button>
                         <button
                           onClick={() => handleTogglePublic(collection)}
                           className="text-sm px-3 py-1 bg-sand/10 text-sand rounded hover:bg-sand/20"
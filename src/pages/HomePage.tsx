@@ -5,7 +5,22 @@ import { api } from "../../convex/_generated/api";
 import { useAuth } from "../contexts/AuthContext";
 import type { Id } from "../../convex/_generated/dataModel";
 import BoardPreview from "../components/BoardPreview";
+import RulesetBadge from "../components/RulesetBadge";
+import SuiteRunSummary from "../components/SuiteRunSummary";
+import LifecycleSteps from "../components/LifecycleSteps";
+import FlakyBadge from "../components/FlakyBadge";
+import RepeatInput from "../components/RepeatInput";
+import RepeatResults from "../components/RepeatResults";
+import BotPicker from "../components/BotPicker";
 import { useAsyncTestRun } from "../hooks/useAsyncTestRun";
+import { useBotSelection } from "../hooks/useBotSelection";
+import {
+  describeExpectations,
+  gradeResult,
+  MOVE_GRADE_LABELS,
+  summarizeGrades,
+} from "../../convex/scoring";
+import type { ScenarioScript } from "../../convex/scenario";
 
 type Coordinate = { x: number; y: number };
 type Snake = {
@@ -24,22 +39,39 @@ type Board = {
   snakes: Snake[];
 };
 
+type Game = {
+  ruleset?: { name?: string; settings?: { hazardMap?: string; hazardDamagePerTurn?: number } };
+  map?: string;
+  timeout?: number;
+};
+
 type Test = {
   _id: Id<"tests">;
   name: string;
   description?: string;
   board: Board;
+  game?: Game;
   turn: number;
   youId: string;
   expectedSafeMoves: string[];
+  preferredMove?: string;
+  forbiddenMoves?: string[];
+  scenario?: ScenarioScript;
 };
 
 export default function HomePage() {
   const { user, logout, token } = useAuth();
-  const [botUrl, setBotUrl] = useState(() => localStorage.getItem("botUrl") ?? "");
+  const botSelection = useBotSelection(token);
+  const { botUrl, botId } = botSelection;
   const [expandedTest, setExpandedTest] = useState<Id<"tests"> | null>(null);
   const [addingToCollection, setAddingToCollection] = useState<Id<"tests"> | null>(null);
-  const { runTest, runAllTests, isRunning, getResult, runStates } = useAsyncTestRun(token);
+  const [lifecycle, setLifecycle] = useState(() => localStorage.getItem("lifecycleCalls") === "true");
+  const [repeat, setRepeat] = useState(() => Number(localStorage.getItem("repeatRuns")) || 1);
+  const { runTest, runAllTests, isRunning, getResult, runStates, suiteRun, runError } = useAsyncTestRun(token, {
+    lifecycle,
+    botId,
+    repeat: repeat > 1 ? repeat : undefined,
+  });
 
   const publicTests = useQuery(api.battlesnake.listPublicTests);
   const collections = useQuery(
@@ -50,20 +82,20 @@ export default function HomePage() {
 
   const handleRunTest = async (test: Test) => {
     if (!botUrl.trim()) return;
-    localStorage.setItem("botUrl", botUrl);
     await runTest(test._id, botUrl);
   };
 
   const handleRunAll = async () => {
     if (!botUrl.trim() || !publicTests) return;
-    localStorage.setItem("botUrl", botUrl);
     await runAllTests(publicTests as Array<{ _id: Id<"tests"> }>, botUrl);
   };
 
-  const passCount = publicTests?.filter((t) => {
-    const r = getResult(t._id);
-    return r?.ok && t.expectedSafeMoves.includes(r.move ?? "");
-  }).length ?? 0;
+  const summary = summarizeGrades(
+    (publicTests ?? []).flatMap((t) => {
+      const r = getResult(t._id);
+      return r?.ok ? [gradeResult(t, r)] : [];
+    })
+  );
 
   const handleAddToCollection = async (collectionId: Id<"collections">) => {
     if (!token || !addingToCollection) return;
@@ -101,15 +133,9 @@ export default function HomePage() {
         </header>
 
         <div className="bg-ink border border-sand/20 rounded-lg p-4 mb-6">
-          <label className="block text-sand/80 text-sm mb-1">Your Bot URL</label>
+          <label className="block text-sand/80 text-sm mb-1">Your Bot</label>
           <div className="flex gap-2">
-            <input
-              type="text"
-              value={botUrl}
-              onChange={(e) => setBotUrl(e.target.value)}
-              placeholder="https://your-battlesnake.com"
-              className="flex-1 bg-night border border-sand/20 rounded px-3 py-2 text-sand focus:outline-none focus:border-lagoon"
-            />
+            <BotPicker selection={botSelection} />
             <button
               onClick={handleRunAll}
               disabled={!botUrl.trim() || !publicTests?.length}
@@ -118,13 +144,35 @@ export default function HomePage() {
               Run All Tests
             </button>
           </div>
+          <label className="flex items-center gap-2 text-sand/60 text-xs mt-2">
+            <input
+              type="checkbox"
+              checked={lifecycle}
+              onChange={(e) => {
+                setLifecycle(e.target.checked);
+                localStorage.setItem("lifecycleCalls", String(e.target.checked));
+              }}
+            />
+            Also call GET /, /start and /end around each test
+          </label>
+          <RepeatInput
+            value={repeat}
+            onChange={(value) => {
+              setRepeat(value);
+              localStorage.setItem("repeatRuns", String(value));
+            }}
+          />
           {Object.keys(runStates).length > 0 && publicTests && (
             <p className="text-sand/60 text-sm mt-2">
-              Results: {passCount}/{publicTests.length} passed
+              Results: {summary.passed}/{publicTests.length} passed | Score: {summary.score}/{publicTests.length}
+              {summary.forbidden > 0 && <span className="ml-2 text-ember">| {summary.forbidden} forbidden</span>}
             </p>
           )}
+          {runError && <p className="text-ember text-sm mt-2">{runError}</p>}
         </div>
 
+        {suiteRun && <SuiteRunSummary suiteRun={suiteRun} />}
+
         <h2 className="text-xl text-sand mb-4">Public Tests</h2>
 
         {publicTests === undefined ? (
@@ -143,11 +191,15 @@ export default function HomePage() {
             {publicTests.map((test) => {
               const result = getResult(test._id);
               const running = isRunning(test._id);
-              const passed = result?.ok && test.expectedSafeMoves.includes(result.move ?? "");
+              const graded = result?.ok ? gradeResult(test, result) : null;
               return (
                 <div key={test._id} className="bg-ink border border-sand/20 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-2">
-                    <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                    <div className="flex items-center gap-3">
+                      <h3 className="text-lg font-semibold text-sand">{test.name}</h3>
+                      <RulesetBadge game={test.game} />
+                      <FlakyBadge summary={result?.repeatSummary} />
+                    </div>
                     <div className="flex items-center gap-2">
                       <button
                         onClick={() => setExpandedTest(expandedTest === test._id ? null : test._id)}
@@ -176,7 +228,7 @@ export default function HomePage() {
                     <p className="text-sand/70 text-sm mb-2">{test.description}</p>
                   )}
                   <p className="text-sand/60 text-sm">
-                    Turn {test.turn} | Expected: {test.expectedSafeMoves.join(", ")}
+                    Turn {test.turn} | Expected: {describeExpectations(test)}
                   </p>
 
                   {addingToCollection === test._id && collections && (
@@ -209,17 +261,32 @@ export default function HomePage() {
                   )}
 
                   {result && (
-                    <div className={`mt-2 p-2 rounded text-sm ${passed ? "bg-moss/20 text-moss" : "bg-ember/20 text-ember"}`}>
-                      {result.ok ? (
+                    <div className={`mt-2 p-2 rounded text-sm ${graded?.grade === "acceptable" ? "bg-clay/20 text-clay" : graded?.passed ? "bg-moss/20 text-moss" : "bg-ember/20 text-ember"}`}>
+                      {result.ok && graded ? (
                         <span>
-                          Move: {result.move} {passed ? "(PASS)" : "(FAIL)"}
+                          Move: {result.move} ({MOVE_GRADE_LABELS[graded.grade]})
                           {result.responseTimeMs !== undefined && (
                             <span className="ml-2 text-sand/60">| {result.responseTimeMs}ms</span>
                           )}
                         </span>
+                      ) : result.timedOut ? (
+                        <span>
+                          <span className="mr-2 px-1.5 py-0.5 rounded bg-ember text-ink text-xs font-semibold">TIMEOUT</span>
+                          {result.error}
+                        </span>
                       ) : (
                         <span>Error: {result.error}</span>
                       )}
+                      {result.ok && result.scenarioMoves && (
+                        <div className="text-xs text-sand/60 mt-1">
+                          Survived {result.survivedTurns}/{test.scenario?.turns} turns
+                          {result.eliminationCause && ` (${result.eliminationCause})`} | Moves: {result.scenarioMoves.join(" ")}
+                        </div>
+                      )}
+                      {result.lifecycleSteps && (
+                        <LifecycleSteps steps={result.lifecycleSteps} botInfo={result.botInfo} />
+                      )}
+                      {result.repeatSummary && <RepeatResults summary={result.repeatSummary} />}
                     </div>
                   )}
                 </div>